@@ -4,23 +4,158 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { GoogleGenAI, Type } from "@google/genai";
+import type { LiveMusicFilteredPrompt, LiveMusicGenerationConfig, Scale } from "@google/genai";
 
-import { html, LitElement, nothing } from "lit";
+import { html, LitElement, nothing, type PropertyValues } from "lit";
 import { customElement, query, state } from "lit/decorators.js";
 import { classMap } from "lit/directives/class-map.js";
 import { styleMap } from "lit/directives/style-map.js";
 
-import { defineSystemPrompt } from "../utils/define_system_prompt";
-import { LiveMusicHelper } from "../utils/live_music_helper";
+import { EXPORT_MIME_TYPES, type AudioExportFormat } from "../utils/audio_export";
+import type { Beat, Onset, TempoEstimate } from "../utils/beat_tracker";
+import type { BufferHealth } from "../utils/jitter_buffer";
+import {
+  DEFAULT_AUTO_GAIN,
+  LiveMusicHelper,
+  type AutoGainSettings,
+  type ConnectionFailure,
+  type LoudnessReading,
+} from "../utils/live_music_helper";
+import {
+  DEFAULT_MASTER_SETTINGS,
+  MASTER_PRESETS,
+  MASTER_STAGES,
+  type MasterChainSettings,
+  type MasterStage,
+} from "../utils/master_chain";
+import { createMusicBackend } from "../utils/music_backend";
+import {
+  DEFAULT_MOTION_SETTINGS,
+  MODULATION_CURVES,
+  MODULATION_TARGETS,
+  MOTION_FEATURES,
+  modulateGenerationConfig,
+  modulatePromptWeights,
+  MotionAnalyzer,
+  type ModulationRoute,
+  type ModulationTarget,
+  type MotionFeatures,
+  type MotionSettings,
+} from "../utils/motion_modulation";
+import {
+  CONTEXT_FRAME_MIME_TYPE,
+  createContactSheet,
+  DEFAULT_TEMPORAL_CONTEXT,
+  FrameHistory,
+  MAX_CONTEXT_FRAMES,
+  type TemporalContextSettings,
+} from "../utils/frame_history";
+import { HeuristicAnalyzer } from "../utils/heuristic_analyzer";
+import { AnalysisValidationError } from "../utils/analysis_validation";
+import {
+  CAMERA_FRAME_RATES,
+  CAMERA_RESOLUTIONS,
+  cameraConstraints,
+  DEFAULT_CAMERA_SETTINGS,
+  findCamera,
+  listCameras,
+  type CameraSettings,
+} from "../utils/camera_devices";
+import { addClipCue, clipCueAt, hasCueBetween, type ClipCue } from "../utils/clip_cues";
+import {
+  clampSlideSeconds,
+  createSlide,
+  MAX_SLIDE_SECONDS,
+  MIN_SLIDE_SECONDS,
+  moveSlide,
+  SLIDE_FADE_SECONDS,
+  SLIDE_TRANSITIONS,
+  totalSlideSeconds,
+  type Slide,
+  type Slideshow,
+} from "../utils/slideshow";
+import {
+  DEFAULT_QUOTA,
+  isRateLimit,
+  RateLimitError,
+  RequestCancelledError,
+  RequestScheduler,
+  type QuotaSettings,
+  type RequestPriority,
+  type SchedulerStatus,
+} from "../utils/request_scheduler";
+import {
+  coverLayout,
+  FULL_REGION,
+  isFullRegion,
+  normalizeRegion,
+  regionToPixels,
+  type Region,
+} from "../utils/region_of_interest";
+import {
+  appendTimelineEntry,
+  createThumbnail,
+  exportTimeline,
+  type TimelineEntry,
+} from "../utils/analysis_timeline";
+import { PcmRecorder } from "../utils/pcm_recorder";
+import { SceneChangeDetector } from "../utils/scene_change";
+import {
+  scaleLabel,
+  sceneToGenerationConfig,
+  type SceneAnalysis,
+} from "../utils/scene_analysis";
+import {
+  createDefaultTemplate,
+  createTemplate,
+  DEFAULT_TEMPLATE_ID,
+  exportTemplates,
+  findUnknownVariables,
+  parseTemplateImport,
+  PROMPT_VARIABLES,
+  renderPromptTemplate,
+  reviseTemplate,
+  type PromptTemplate,
+} from "../utils/prompt_templates";
+import {
+  createVisionProvider,
+  DEFAULT_VISION_PROVIDER_SETTINGS,
+  VISION_PROVIDER_KINDS,
+  type VisionProvider,
+  type VisionProviderSettings,
+  type VisionSnapshot,
+} from "../utils/vision_provider";
+import { urlargs } from "../utils/urlargs";
 import { getT } from "../utils/i18n";
 import {
+  AUTO_GAIN_STORAGE_KEY,
+  CAPTURE_DURATION_STORAGE_KEY,
+  CAPTURE_DURATIONS,
+  CAPTURE_FORMAT_STORAGE_KEY,
+  DEFAULT_CAPTURE_DURATION,
   DEFAULT_INTERVAL_PRESET,
+  ENGINE_CONFIG_STORAGE_KEY,
   GEMINI_MODEL,
   IMAGE_MIME_TYPE,
   INTERVAL_PRESETS,
   MAX_CAPTURE_DIM,
-  PREFERRED_STREAM_PARAMS,
+  MAX_QUOTA_WAIT_MS,
+  LYRIA_MODEL,
+  MASTER_SETTINGS_STORAGE_KEY,
+  MODULATION_CONFIG_INTERVAL_MS,
+  MODULATION_CONFIG_STEP,
+  MOTION_SETTINGS_STORAGE_KEY,
+  MOTION_TICK_MS,
+  QUOTA_STORAGE_KEY,
+  QUOTA_USAGE_STORAGE_KEY,
+  CAMERA_STORAGE_KEY,
+  REGION_STORAGE_KEY,
+  SCALE_OPTIONS,
+  SCENE_CHECK_INTERVAL_MS,
+  STYLE_HINT_STORAGE_KEY,
+  TEMPLATE_STORAGE_KEY,
+  TEMPORAL_CONTEXT_STORAGE_KEY,
+  VISION_PROVIDER_STORAGE_KEY,
 } from "../utils/constants";
 
 import styles from "./lyria_camera_styles";
@@ -34,22 +169,29 @@ import type {
   AppState,
   FacingMode,
   IntervalPreset,
+  SceneChangeTrigger,
+  AnalyzerKind,
   StreamSource,
   Page,
   Language,
 } from "../utils/types";
 
-defineSystemPrompt();
-
 interface FavoriteVibeRecord {
   id: string;
   name: string;
   prompts: Prompt[];
   timestamp: number;
+  format: AudioExportFormat | "webm"; // "webm" for captures made before lossless export
+  mimeType: string;
+  integratedLoudness?: number; // LUFS; absent on captures made before metering
   blob?: Blob;
   blobUrl?: string; // Runtime only
 }
 
+type EngineSliderKey = "bpm" | "density" | "brightness" | "guidance" | "temperature" | "topK";
+type EngineToggleKey = "muteBass" | "muteDrums" | "onlyBassAndDrums";
+type MasterPresetName = keyof typeof MASTER_PRESETS;
+
 interface DebugLog {
   timestamp: string;
   message: string;
@@ -61,7 +203,8 @@ export class LyriaCamera extends LitElement {
   static styles = styles;
 
   private liveMusicHelper!: LiveMusicHelper;
-  private ai!: GoogleGenAI;
+  private visionProvider!: VisionProvider;
+  @state() private visionSettings: VisionProviderSettings = { ...DEFAULT_VISION_PROVIDER_SETTINGS };
 
   @state() private page: Page = "splash";
   @state() private language: Language = "en";
@@ -73,26 +216,89 @@ export class LyriaCamera extends LitElement {
   @state() private prompts: Prompt[] = [];
   @state() private promptsStale = false;
   @state() private promptsLoading = false;
-  @state() private isCoolingDown = false;
+  private scheduler!: RequestScheduler;
+  @state() private quotaSettings: QuotaSettings = { ...DEFAULT_QUOTA };
+  @state() private quotaStatus: SchedulerStatus | null = null;
+  // Priority of a capture that is waiting on the scheduler, before it starts analyzing.
+  private awaitingQuota: RequestPriority | null = null;
+  @state() private connectionFailed = false;
+  @state() private loudness: LoudnessReading | null = null;
+  @state() private tempo: TempoEstimate | null = null;
+  @state() private autoGain: AutoGainSettings = { ...DEFAULT_AUTO_GAIN };
 
   @state() private hasAudioChunks = false;
   @state() private supportsScreenShare = false;
-  @state() private hasMultipleCameras = false;
+  @state() private cameras: MediaDeviceInfo[] = [];
+  @state() private cameraSettings: CameraSettings = this.loadCameraSettings();
+  // What the open camera track reports about itself.
+  @state() private activeCamera: { deviceId: string | null; label: string; width?: number; height?: number; frameRate?: number; autoMirror: boolean } | null = null;
+  @state() private cameraDisconnected = false;
+  private cameraOpening = false;
+  // A pause asked for while the music was still loading, applied once it plays.
+  private pauseWhenPlaying = false;
   @state() private isVideoFlipped = false;
+  @state() private regions: Partial<Record<StreamSource, Region>> = this.loadRegions();
+  @state() private roiEditing = false;
+  // In-progress drag over the region editor; the region is only saved on release.
+  @state() private roiDraft: Region | null = null;
+  private roiDrag: { mode: "draw" | "move" | "resize"; start: { x: number; y: number }; origin: Region } | null = null;
+  private regionCanvas = document.createElement("canvas");
 
   @state() private lastCapturedImage: string | null = null;
+  @state() private timeline: TimelineEntry[] = [];
+  @state() private temporalContext: TemporalContextSettings = { ...DEFAULT_TEMPORAL_CONTEXT };
+  private frameHistory = new FrameHistory();
+  private frameSampleIntervalId: number | null = null;
+  @state() private activeTimelineId: string | null = null;
   @state() private currentFacingMode: FacingMode = "environment";
   @state() private currentSource: StreamSource = "none";
   @state() private intervalPreset: IntervalPreset = { ...DEFAULT_INTERVAL_PRESET };
   @state() private captureCountdown = 0;
   @state() private uploadedImageSrc: string | null = null;
   @state() private imagePreviewSrc: string | null = null;
+  // Video clip source: cues pin analyses to clip time, and the music follows the playhead.
+  private videoFileUrl: string | null = null;
+  @state() private clipCues: ClipCue[] = [];
+  private activeCueId: string | null = null;
+  @state() private clipTime = 0;
+  @state() private clipDuration = 0;
+  @state() private clipPaused = true;
+  // Slideshow source: each slide is analyzed once, and the music crossfades as the slides advance.
+  @state() private slides: Slide[] = [];
+  @state() private slideshowName = "";
+  private slideshowId: string | null = null;
+  @state() private savedSlideshows: Slideshow[] = [];
+  @state() private slideIndex = 0;
+  @state() private fadingSlideSrc: string | null = null;
+  @state() private slidesLoading = false;
+  private slideElapsed = 0;
+  private lastSlideTick = 0;
+  private loadedSlideId: string | null = null;
 
   @state() private volume: number = 0.8;
+  // Only the user's explicit overrides; scene analysis fills in whatever is left on Auto.
+  @state() private engineConfig: LiveMusicGenerationConfig = {};
+  @state() private sceneAnalysis: SceneAnalysis | null = null;
+  private sceneConfig: Partial<LiveMusicGenerationConfig> = {};
+  @state() private motionSettings: MotionSettings = structuredClone(DEFAULT_MOTION_SETTINGS);
+  @state() private motionFeatures: MotionFeatures | null = null;
+  private motionAnalyzer = new MotionAnalyzer();
+  private motionIntervalId: number | null = null;
+  private modulationConfig: Partial<LiveMusicGenerationConfig> = {};
+  private lastModulationConfigTime = 0;
+  // The prompts as the app intends them, before motion tilts their weights.
+  private unmodulatedPrompts: Prompt[] = [];
+  @state() private masterSettings: MasterChainSettings = structuredClone(DEFAULT_MASTER_SETTINGS);
   @state() private isCapturingVibe: boolean = false;
   @state() private captureProgress: number = 0;
+  @state() private captureElapsed: number = 0;
+  @state() private captureDuration: number = +(localStorage.getItem(CAPTURE_DURATION_STORAGE_KEY) ?? DEFAULT_CAPTURE_DURATION);
+  @state() private captureFormat: AudioExportFormat = (localStorage.getItem(CAPTURE_FORMAT_STORAGE_KEY) as AudioExportFormat) || "wav";
   
   @state() private newPromptText: string = "";
+  // Prompts the music service refused this session, by text, with its reason.
+  @state() private filteredPrompts = new Map<string, string>();
+  @state() private rephrasingPrompt: string | null = null;
   
   // Dynamic Tooltip State
   @state() private activeTooltip: string | null = null;
@@ -100,6 +306,13 @@ export class LyriaCamera extends LitElement {
   @state() private tooltipY = 0;
   @state() private tooltipSide: 'left' | 'right' = 'right';
 
+  // Prompt Templates
+  @state() private templates: PromptTemplate[] = [createDefaultTemplate()];
+  @state() private activeTemplateId: string = localStorage.getItem(TEMPLATE_STORAGE_KEY) || DEFAULT_TEMPLATE_ID;
+  @state() private templateDraft: string | null = null;
+  @state() private styleHint: string = localStorage.getItem(STYLE_HINT_STORAGE_KEY) ?? "";
+  @query("#template-input") private templateInput!: HTMLInputElement;
+
   // Favorites
   @state() private favorites: FavoriteVibeRecord[] = [];
   @state() private playingEchoId: string | null = null;
@@ -108,40 +321,71 @@ export class LyriaCamera extends LitElement {
   // Debugging Console
   @state() private showDebugConsole = false;
   @state() private debugLogs: DebugLog[] = [];
+  @state() private bufferHistory: BufferHealth[] = [];
+  @state() private targetLatency = urlargs.targetLatency;
 
   @query("video") private videoElement!: HTMLVideoElement;
   @query("img#uploaded-image-el") private uploadedImageElement!: HTMLImageElement;
   @query("toast-message") private toastMessageElement!: ToastMessage;
   @query("#file-input") private fileInput!: HTMLInputElement;
+  @query("#video-input") private videoInput!: HTMLInputElement;
+  @query("#slides-input") private slidesInput!: HTMLInputElement;
   @query("canvas#visualizer") private visualizerCanvas!: HTMLCanvasElement;
+  @query("canvas#buffer-chart") private bufferChartCanvas!: HTMLCanvasElement;
 
   private canvasElement: HTMLCanvasElement = document.createElement("canvas");
 
   private nextCaptureTime = 0;
+  private earliestCaptureTime = 0;
+  private lastSceneCheck = 0;
+  private sceneDetector = new SceneChangeDetector();
+  private heuristicAnalyzer = new HeuristicAnalyzer();
+  @state() private lastAnalyzer: AnalyzerKind | null = null;
+  @state() private sceneDifference = 0;
   private timerRafId: number | null = null;
   private crossfadeIntervalId: number | null = null;
+  // The prompts a running crossfade lands on.
+  private crossfadeTarget: Prompt[] | null = null;
   private visualizerRafId: number | null = null;
+  // Envelopes kicked by beat/onset events and decayed by the visualizer each frame.
+  private beatPulse = 0;
+  private onsetPulse = 0;
+  private lastPulseFrame = 0;
   private captureIntervalId: number | null = null;
+  private captureStartTime = 0;
+  private captureEndNode: ConstantSourceNode | null = null;
 
   private currentWeightedPrompts: Prompt[] = [];
   private uiAudioCtx: AudioContext | null = null;
   
-  private mediaRecorder: MediaRecorder | null = null;
-  private recordedChunks: Blob[] = [];
-  private recordingDestination: MediaStreamAudioDestinationNode | null = null;
+  private pcmRecorder: PcmRecorder | null = null;
 
   private db: IDBDatabase | null = null;
 
-  // Analysis Retry Logic
-  private analysisBackoffFactor = 0;
-
   async connectedCallback() {
     super.connectedCallback();
     this.addLog(`Sonar Initializing with ${GEMINI_MODEL}`, 'info');
     await this.initDB();
     this.loadFavorites();
-    this.ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    this.liveMusicHelper = new LiveMusicHelper(process.env.API_KEY, "lyria-realtime-exp");
+    await this.loadTemplates();
+    this.loadSlideshows();
+    this.loadVisionSettings();
+    this.loadQuotaSettings();
+    this.liveMusicHelper = new LiveMusicHelper(createMusicBackend(urlargs.musicBackend, {
+      apiKey: process.env.API_KEY,
+      model: LYRIA_MODEL,
+      standInUrl: urlargs.musicStandInUrl,
+    }), {
+      targetLatency: urlargs.targetLatency,
+      retryPolicy: { maxRetries: urlargs.maxRetries },
+    });
+    this.addLog(`Music backend: ${this.liveMusicHelper.backendName}`, 'info');
+    this.loadEngineConfig();
+    this.loadMasterSettings();
+    this.loadAutoGain();
+    this.loadMotionSettings();
+    this.loadTemporalContext();
+    this.startFrameSampler();
 
     this.liveMusicHelper.addEventListener(
       "playback-state-changed",
@@ -152,27 +396,45 @@ export class LyriaCamera extends LitElement {
     );
 
     this.liveMusicHelper.addEventListener("prompts-fresh", () => (this.promptsStale = false));
+    this.liveMusicHelper.addEventListener("connection-failed", (e: CustomEvent<ConnectionFailure>) => {
+      this.connectionFailed = true;
+      this.addLog(`Music connection failed after ${e.detail.attempts} retries: ${e.detail.reason}`, 'error');
+      this.toastMessageElement.show("Lost connection to the music engine.", 6000);
+    });
+    this.liveMusicHelper.addEventListener("buffer-health", (e: CustomEvent<BufferHealth>) => this.handleBufferHealth(e.detail));
+    this.liveMusicHelper.addEventListener("loudness", (e: CustomEvent<LoudnessReading>) => (this.loudness = e.detail));
+    this.liveMusicHelper.addEventListener("beat", (e: CustomEvent<Beat>) => this.handleBeat(e.detail));
+    this.liveMusicHelper.addEventListener("onset", (e: CustomEvent<Onset>) => {
+      this.onsetPulse = Math.max(this.onsetPulse, Math.min(1, 0.3 + (e.detail.strength - 1) * 0.5));
+    });
+    this.liveMusicHelper.addEventListener("filtered-prompt", (e: CustomEvent<LiveMusicFilteredPrompt>) => this.handleFilteredPrompt(e.detail));
     this.liveMusicHelper.addEventListener("error", (e: CustomEvent<string>) => {
       this.addLog(`Music Stream Error: ${e.detail}`, 'error');
       this.dispatchError(e.detail);
     });
 
     this.supportsScreenShare = !!navigator.mediaDevices?.getDisplayMedia;
-    void this.updateCameraCapabilities();
+    void this.refreshCameras();
+    navigator.mediaDevices?.addEventListener("devicechange", this.handleDeviceChange);
 
     window.addEventListener('mousemove', this.handleMouseMove);
+    window.addEventListener('resize', this.handleResize);
     window.addEventListener('keydown', this.handleGlobalKeyDown);
   }
 
   disconnectedCallback() {
     super.disconnectedCallback();
     this.stopTimer();
+    this.stopFrameSampler();
+    this.scheduler?.dispose();
     this.stopCurrentStream();
     this.stopVisualizer();
     this.stopRecording();
     if (this.uiAudioCtx) this.uiAudioCtx.close();
     window.removeEventListener('mousemove', this.handleMouseMove);
+    window.removeEventListener('resize', this.handleResize);
     window.removeEventListener('keydown', this.handleGlobalKeyDown);
+    navigator.mediaDevices?.removeEventListener("devicechange", this.handleDeviceChange);
     if (this.vibeAudioEl) { this.vibeAudioEl.pause(); }
   }
 
@@ -197,14 +459,69 @@ export class LyriaCamera extends LitElement {
     this.debugLogs = [log, ...this.debugLogs.slice(0, 49)];
   }
 
+  protected updated(changed: PropertyValues) {
+    if (this.showDebugConsole && (changed.has("bufferHistory") || changed.has("showDebugConsole"))) {
+      this.drawBufferChart();
+    }
+    // Keep the newest analysis in view as the strip grows.
+    if (changed.has("timeline")) {
+      const strip = this.renderRoot.querySelector(".timeline-strip");
+      strip?.scrollTo({ left: strip.scrollWidth, behavior: "smooth" });
+    }
+  }
+
+  private handleBufferHealth(health: BufferHealth) {
+    const previous = this.bufferHistory[this.bufferHistory.length - 1];
+    if (previous && health.underruns > previous.underruns) {
+      this.addLog(`Buffer underrun #${health.underruns}: rebuffering ${health.targetLatency}s`, 'warn');
+    }
+    this.bufferHistory = [...this.bufferHistory.slice(-59), health];
+  }
+
+  private drawBufferChart() {
+    const cvs = this.bufferChartCanvas;
+    if (!cvs) return;
+    const ctx = cvs.getContext("2d")!;
+    if (cvs.width !== cvs.clientWidth) { cvs.width = cvs.clientWidth; cvs.height = cvs.clientHeight; }
+    ctx.clearRect(0, 0, cvs.width, cvs.height);
+    if (this.bufferHistory.length === 0) return;
+
+    const latest = this.bufferHistory[this.bufferHistory.length - 1];
+    const maxDepth = Math.max(latest.targetLatency * 2, ...this.bufferHistory.map(h => h.depth));
+    const barWidth = cvs.width / 60;
+    const y = (seconds: number) => cvs.height - (seconds / maxDepth) * cvs.height;
+
+    this.bufferHistory.forEach((h, i) => {
+      const underran = i > 0 && h.underruns > this.bufferHistory[i - 1].underruns;
+      const late = i > 0 && h.lateChunks > this.bufferHistory[i - 1].lateChunks;
+      ctx.fillStyle = underran ? "#ff453a" : late ? "#ffd60a" : "rgba(0, 255, 136, 0.6)";
+      const top = y(Math.max(0, h.depthOnArrival));
+      ctx.fillRect(i * barWidth, top, barWidth - 1, cvs.height - top);
+    });
+
+    ctx.strokeStyle = "rgba(255, 255, 255, 0.5)";
+    ctx.setLineDash([4, 4]);
+    ctx.beginPath();
+    ctx.moveTo(0, y(latest.targetLatency));
+    ctx.lineTo(cvs.width, y(latest.targetLatency));
+    ctx.stroke();
+    ctx.setLineDash([]);
+  }
+
   private async initDB() {
     return new Promise<void>((resolve) => {
-      const request = indexedDB.open("SonarDB", 1);
+      const request = indexedDB.open("SonarDB", 3);
       request.onupgradeneeded = (e: any) => {
         const db = e.target.result;
         if (!db.objectStoreNames.contains("echoes")) {
           db.createObjectStore("echoes", { keyPath: "id" });
         }
+        if (!db.objectStoreNames.contains("templates")) {
+          db.createObjectStore("templates", { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains("slideshows")) {
+          db.createObjectStore("slideshows", { keyPath: "id" });
+        }
       };
       request.onsuccess = (e: any) => {
         this.db = e.target.result;
@@ -213,6 +530,11 @@ export class LyriaCamera extends LitElement {
     });
   }
 
+  // The region overlay is laid out against the window, so it has to follow resizes.
+  private handleResize = () => {
+    if (this.roiEditing || !isFullRegion(this.activeRegion)) this.requestUpdate();
+  };
+
   private handleMouseMove = (e: MouseEvent) => {
     if (this.activeTooltip) {
       this.tooltipX = e.clientX;
@@ -230,6 +552,8 @@ export class LyriaCamera extends LitElement {
     request.onsuccess = () => {
       this.favorites = (request.result || []).map(f => ({
         ...f,
+        format: f.format ?? "webm",
+        mimeType: f.mimeType ?? f.blob?.type ?? "audio/webm",
         blobUrl: f.blob ? URL.createObjectURL(f.blob) : undefined
       })).sort((a, b) => b.timestamp - a.timestamp);
     };
@@ -244,6 +568,388 @@ export class LyriaCamera extends LitElement {
     store.put(echoToStore);
   }
 
+  private async loadTemplates() {
+    if (!this.db) return;
+    const stored = await new Promise<PromptTemplate[]>((resolve) => {
+      const request = this.db!.transaction("templates", "readonly").objectStore("templates").getAll();
+      request.onsuccess = () => resolve(request.result || []);
+      request.onerror = () => resolve([]);
+    });
+    const templates = stored.some(t => t.id === DEFAULT_TEMPLATE_ID) ? stored : [createDefaultTemplate(), ...stored];
+    this.templates = templates.sort((a, b) => (a.id === DEFAULT_TEMPLATE_ID ? -1 : b.id === DEFAULT_TEMPLATE_ID ? 1 : a.name.localeCompare(b.name)));
+    if (!this.templates.some(t => t.id === this.activeTemplateId)) this.activeTemplateId = DEFAULT_TEMPLATE_ID;
+    this.addLog(`Prompt template: ${this.activeTemplate.name} v${this.activeTemplate.version}`, 'info');
+  }
+
+  private get activeTemplate() {
+    return this.templates.find(t => t.id === this.activeTemplateId) ?? this.templates[0];
+  }
+
+  private saveTemplateToDB(template: PromptTemplate) {
+    if (!this.db) return;
+    this.db.transaction("templates", "readwrite").objectStore("templates").put(template);
+  }
+
+  private putTemplate(template: PromptTemplate) {
+    const exists = this.templates.some(t => t.id === template.id);
+    this.templates = exists ? this.templates.map(t => (t.id === template.id ? template : t)) : [...this.templates, template];
+    this.saveTemplateToDB(template);
+  }
+
+  private selectTemplate(id: string) {
+    this.activeTemplateId = id;
+    this.templateDraft = null;
+    localStorage.setItem(TEMPLATE_STORAGE_KEY, id);
+    this.addLog(`Prompt template: ${this.activeTemplate.name} v${this.activeTemplate.version}`, 'info');
+  }
+
+  private saveTemplateDraft() {
+    if (this.templateDraft === null) return;
+    const revised = reviseTemplate(this.activeTemplate, this.templateDraft);
+    this.templateDraft = null;
+    if (revised === this.activeTemplate) return;
+    this.putTemplate(revised);
+    this.addLog(`Saved ${revised.name} v${revised.version}`, 'info');
+  }
+
+  private duplicateTemplate() {
+    const source = this.activeTemplate;
+    const copy = createTemplate(`${source.name} copy`, this.templateDraft ?? source.body);
+    this.putTemplate(copy);
+    this.selectTemplate(copy.id);
+  }
+
+  private renameTemplate(name: string) {
+    const trimmed = name.trim();
+    if (!trimmed || trimmed === this.activeTemplate.name) return;
+    this.putTemplate({ ...this.activeTemplate, name: trimmed });
+  }
+
+  private deleteTemplate() {
+    const id = this.activeTemplateId;
+    if (id === DEFAULT_TEMPLATE_ID || !this.db) return;
+    this.db.transaction("templates", "readwrite").objectStore("templates").delete(id);
+    this.templates = this.templates.filter(t => t.id !== id);
+    this.selectTemplate(DEFAULT_TEMPLATE_ID);
+  }
+
+  private exportTemplates() {
+    const url = URL.createObjectURL(new Blob([exportTemplates(this.templates)], { type: "application/json" }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = "sonar_prompt_templates.json";
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  private async handleTemplateImport(e: Event) {
+    const file = (e.target as HTMLInputElement).files?.[0];
+    this.templateInput.value = "";
+    if (!file) return;
+    try {
+      const imported = parseTemplateImport(await file.text());
+      imported.forEach(t => this.putTemplate(t));
+      this.toastMessageElement.show(`Imported ${imported.length} template${imported.length === 1 ? "" : "s"}.`);
+      this.addLog(`Imported ${imported.length} prompt templates from ${file.name}`, 'info');
+    } catch (err: any) {
+      this.addLog(`Template import failed: ${err.message || err}`, 'error');
+      this.dispatchError("That file isn't a prompt template export.");
+    }
+  }
+
+  private setStyleHint(hint: string) {
+    this.styleHint = hint.trim();
+    localStorage.setItem(STYLE_HINT_STORAGE_KEY, this.styleHint);
+  }
+
+  /** The active template with this capture's variables filled in. */
+  private buildAnalysisPrompt(frameContext: string) {
+    const sourceTypes: Record<StreamSource, string> = { camera: "a live camera", screen: "a shared screen", image: "an uploaded image", video: "a video clip", slideshow: "a slideshow of still images", none: "an unknown source" };
+    return renderPromptTemplate(this.activeTemplate.body, {
+      language: this.language === "pt" ? "Portuguese" : "English",
+      previousPrompts: this.prompts.length > 0 ? this.prompts.map(p => p.text).join("; ") : "none yet",
+      previousScene: this.sceneAnalysis?.description || "not analyzed yet",
+      sourceType: sourceTypes[this.currentSource],
+      frameContext,
+      userStyleHint: this.styleHint || "none",
+    });
+  }
+
+  private loadQuotaSettings() {
+    try {
+      this.quotaSettings = { ...DEFAULT_QUOTA, ...JSON.parse(localStorage.getItem(QUOTA_STORAGE_KEY) || "{}") };
+    } catch (e) {
+      this.quotaSettings = { ...DEFAULT_QUOTA };
+    }
+    this.scheduler = new RequestScheduler(this.quotaSettings, QUOTA_USAGE_STORAGE_KEY);
+    this.scheduler.addEventListener("status", (e: CustomEvent<SchedulerStatus>) => this.handleQuotaStatus(e.detail));
+    this.quotaStatus = this.scheduler.status;
+  }
+
+  private updateQuotaSettings(patch: Partial<QuotaSettings>) {
+    this.quotaSettings = { ...this.quotaSettings, ...patch };
+    localStorage.setItem(QUOTA_STORAGE_KEY, JSON.stringify(this.quotaSettings));
+    this.scheduler.setQuota(this.quotaSettings);
+  }
+
+  private handleQuotaStatus(status: SchedulerStatus) {
+    const previous = this.quotaStatus?.state;
+    this.quotaStatus = status;
+    if (previous === status.state) return;
+    if (status.state === "coolingDown") this.addLog(`Cooling down for ${this.formatWait(status)}`, 'warn');
+    else if (status.state === "exhausted") this.addLog(`Daily analysis budget used up; next in ${this.formatWait(status)}`, 'warn');
+    else if (previous === "coolingDown") this.addLog("Cooldown period complete.", 'info');
+  }
+
+  private get isCoolingDown() {
+    return this.quotaStatus?.state === "coolingDown";
+  }
+
+  private formatWait(status: SchedulerStatus) {
+    const seconds = Math.max(0, Math.ceil((status.nextAllowedAt - Date.now()) / 1000));
+    return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+  }
+
+  private loadTemporalContext() {
+    try {
+      this.temporalContext = { ...DEFAULT_TEMPORAL_CONTEXT, ...JSON.parse(localStorage.getItem(TEMPORAL_CONTEXT_STORAGE_KEY) || "{}") };
+    } catch (e) {
+      this.temporalContext = { ...DEFAULT_TEMPORAL_CONTEXT };
+    }
+  }
+
+  private updateTemporalContext(patch: Partial<TemporalContextSettings>) {
+    const spacingChanged = patch.spacingSeconds !== undefined && patch.spacingSeconds !== this.temporalContext.spacingSeconds;
+    this.temporalContext = { ...this.temporalContext, ...patch };
+    localStorage.setItem(TEMPORAL_CONTEXT_STORAGE_KEY, JSON.stringify(this.temporalContext));
+    if (spacingChanged) {
+      // Frames sampled at the old spacing would misstate the time span.
+      this.frameHistory.clear();
+      this.stopFrameSampler();
+      this.startFrameSampler();
+    }
+  }
+
+  private startFrameSampler() {
+    if (this.frameSampleIntervalId) return;
+    this.frameSampleIntervalId = window.setInterval(() => {
+      const frame = this.page === "main" ? this.getAnalysisFrame() : null;
+      if (frame && this.temporalContext.frames > 1) this.frameHistory.push(frame.element, frame.width, frame.height);
+    }, this.temporalContext.spacingSeconds * 1000);
+  }
+
+  private stopFrameSampler() {
+    if (this.frameSampleIntervalId) clearInterval(this.frameSampleIntervalId);
+    this.frameSampleIntervalId = null;
+  }
+
+  /**
+   * The images to send for one analysis: recent sampled frames followed by
+   * the current snapshot, or all of them on one contact sheet, plus a
+   * sentence telling the model how to read them.
+   */
+  private buildContextSnapshots(snapshot: string, frame: ReturnType<LyriaCamera["getAnalysisFrame"]>) {
+    const current: VisionSnapshot = { data: snapshot.split(",")[1], mimeType: IMAGE_MIME_TYPE };
+    const { frames, contactSheet } = this.temporalContext;
+    const history = frame ? this.frameHistory.recent(frames - 1) : [];
+    if (history.length === 0) return { snapshots: [current], frameContext: "You are given the current frame." };
+
+    const count = history.length + 1;
+    const span = Math.round((performance.now() - history[0].time) / 1000);
+    if (contactSheet) {
+      const sheet = createContactSheet([
+        ...history.map(h => ({ source: h.canvas, width: h.canvas.width, height: h.canvas.height })),
+        { source: frame!.element, width: frame!.width, height: frame!.height },
+      ], IMAGE_MIME_TYPE);
+      return {
+        snapshots: [{ data: sheet.split(",")[1], mimeType: IMAGE_MIME_TYPE }],
+        frameContext: `You are given one contact sheet of ${count} frames spanning the last ${span} seconds, read left to right and top to bottom; the last tile is the current view.`,
+      };
+    }
+    return {
+      snapshots: [...history.map(h => ({ data: h.canvas.toDataURL(CONTEXT_FRAME_MIME_TYPE).split(",")[1], mimeType: CONTEXT_FRAME_MIME_TYPE })), current],
+      frameContext: `You are given ${count} frames spanning the last ${span} seconds, oldest first; the last one is the current view.`,
+    };
+  }
+
+  private loadEngineConfig() {
+    try {
+      this.engineConfig = JSON.parse(localStorage.getItem(ENGINE_CONFIG_STORAGE_KEY) || "{}");
+    } catch (e) {
+      this.engineConfig = {};
+    }
+    this.applyGenerationConfig();
+  }
+
+  private updateEngineConfig(patch: Partial<LiveMusicGenerationConfig>) {
+    const next: LiveMusicGenerationConfig = { ...this.engineConfig, ...patch };
+    for (const key of Object.keys(next) as (keyof LiveMusicGenerationConfig)[]) {
+      if (next[key] === undefined) delete next[key];
+    }
+    this.engineConfig = next;
+    localStorage.setItem(ENGINE_CONFIG_STORAGE_KEY, JSON.stringify(this.engineConfig));
+    this.applyGenerationConfig();
+    this.addLog(`Engine config updated: ${JSON.stringify(patch)}`, 'info');
+  }
+
+  /**
+   * Sends the scene-derived config overlaid with the user's overrides and then
+   * motion modulation, clearing anything none of them sets.
+   */
+  private applyGenerationConfig() {
+    const next: Partial<LiveMusicGenerationConfig> = { ...this.sceneConfig, ...this.engineConfig, ...this.modulationConfig };
+    const patch: Record<string, unknown> = { ...next };
+    for (const key of Object.keys(this.liveMusicHelper.musicGenerationConfig)) {
+      if (!(key in next)) patch[key] = undefined;
+    }
+    void this.liveMusicHelper.setMusicGenerationConfig(patch as Partial<LiveMusicGenerationConfig>);
+  }
+
+  /** Stored settings, with any `visionProvider`, `visionBaseUrl` or `visionModel` URL args taking precedence. */
+  private loadVisionSettings() {
+    let settings = { ...DEFAULT_VISION_PROVIDER_SETTINGS };
+    try {
+      settings = { ...settings, ...JSON.parse(localStorage.getItem(VISION_PROVIDER_STORAGE_KEY) || "{}") };
+    } catch (e) {
+      this.addLog("Stored vision provider settings were unreadable; using defaults.", 'warn');
+    }
+    if (urlargs.visionProvider !== "settings") settings.kind = urlargs.visionProvider;
+    if (urlargs.visionBaseUrl) settings.baseUrl = urlargs.visionBaseUrl;
+    if (urlargs.visionModel) settings.model = urlargs.visionModel;
+    if (!VISION_PROVIDER_KINDS.includes(settings.kind)) settings.kind = DEFAULT_VISION_PROVIDER_SETTINGS.kind;
+    this.visionSettings = settings;
+    this.createVisionProvider();
+  }
+
+  private updateVisionSettings(patch: Partial<VisionProviderSettings>) {
+    this.visionSettings = { ...this.visionSettings, ...patch };
+    localStorage.setItem(VISION_PROVIDER_STORAGE_KEY, JSON.stringify(this.visionSettings));
+    this.createVisionProvider();
+  }
+
+  private createVisionProvider() {
+    this.visionProvider = createVisionProvider(this.visionSettings, { geminiApiKey: process.env.API_KEY, geminiModel: GEMINI_MODEL });
+    this.addLog(`Vision provider: ${this.visionProvider.kind} (${this.visionProvider.label})`, 'info');
+  }
+
+  private loadMotionSettings() {
+    try {
+      const stored = JSON.parse(localStorage.getItem(MOTION_SETTINGS_STORAGE_KEY) || "{}");
+      const settings = structuredClone(DEFAULT_MOTION_SETTINGS);
+      settings.enabled = stored.enabled ?? settings.enabled;
+      settings.smoothing = stored.smoothing ?? settings.smoothing;
+      for (const target of MODULATION_TARGETS) Object.assign(settings.routes[target], stored.routes?.[target]);
+      this.motionSettings = settings;
+    } catch (e) {
+      this.motionSettings = structuredClone(DEFAULT_MOTION_SETTINGS);
+    }
+  }
+
+  private updateMotionSettings(patch: Partial<MotionSettings>) {
+    this.motionSettings = { ...this.motionSettings, ...patch };
+    localStorage.setItem(MOTION_SETTINGS_STORAGE_KEY, JSON.stringify(this.motionSettings));
+    if (this.motionSettings.enabled && this.appState === "playing") this.startMotionLoop();
+    else if (!this.motionSettings.enabled) this.stopMotionLoop();
+  }
+
+  private updateModulationRoute(target: ModulationTarget, patch: Partial<ModulationRoute>) {
+    const routes = { ...this.motionSettings.routes, [target]: { ...this.motionSettings.routes[target], ...patch } };
+    this.updateMotionSettings({ routes });
+    this.addLog(`Motion route ${target}: ${JSON.stringify(patch)}`, 'info');
+  }
+
+  private startMotionLoop() {
+    if (this.motionIntervalId || !this.motionSettings.enabled) return;
+    this.motionAnalyzer.reset();
+    this.motionIntervalId = window.setInterval(() => this.tickMotion(), MOTION_TICK_MS);
+    this.addLog("Motion modulation started", 'info');
+  }
+
+  private stopMotionLoop() {
+    if (!this.motionIntervalId) return;
+    clearInterval(this.motionIntervalId);
+    this.motionIntervalId = null;
+    this.motionFeatures = null;
+    this.modulationConfig = {};
+    this.applyGenerationConfig();
+    this.liveMusicHelper.setWeightedPrompts(this.unmodulatedPrompts);
+  }
+
+  private tickMotion() {
+    const frame = this.getAnalysisFrame();
+    if (!frame || this.appState !== "playing") return;
+    const features = this.motionAnalyzer.analyze(frame.element, this.motionSettings.smoothing);
+    if (this.showDebugConsole) this.motionFeatures = features;
+
+    const config = modulateGenerationConfig(this.motionSettings, features, { ...this.sceneConfig, ...this.engineConfig });
+    const moved = (["density", "brightness"] as const).some(key => Math.abs((config[key] ?? 0) - (this.modulationConfig[key] ?? -1)) >= MODULATION_CONFIG_STEP);
+    const now = performance.now();
+    if (moved && now - this.lastModulationConfigTime >= MODULATION_CONFIG_INTERVAL_MS) {
+      this.lastModulationConfigTime = now;
+      this.modulationConfig = config;
+      this.applyGenerationConfig();
+    }
+    // The helper throttles this to once a second, so resending every tick is cheap.
+    this.liveMusicHelper.setWeightedPrompts(modulatePromptWeights(this.motionSettings, features, this.unmodulatedPrompts));
+  }
+
+  private applySceneAnalysis(analysis: SceneAnalysis) {
+    this.sceneAnalysis = analysis;
+    this.sceneConfig = sceneToGenerationConfig(analysis, this.liveMusicHelper.musicGenerationConfig.bpm);
+    this.applyGenerationConfig();
+    this.addLog(`Scene: ${analysis.mood}, energy ${analysis.energy.toFixed(2)}, ${analysis.bpmRange.min}-${analysis.bpmRange.max} BPM, ${scaleLabel(analysis.scale) ?? "any key"}`, 'info');
+  }
+
+  private loadMasterSettings() {
+    let stored: Partial<MasterChainSettings> = {};
+    try {
+      stored = JSON.parse(localStorage.getItem(MASTER_SETTINGS_STORAGE_KEY) || "{}");
+    } catch (e) {}
+    // Merged per stage so settings saved by older builds pick up new fields.
+    const settings = structuredClone(DEFAULT_MASTER_SETTINGS);
+    for (const stage of MASTER_STAGES) Object.assign(settings[stage], stored[stage]);
+    this.masterSettings = settings;
+    this.liveMusicHelper.setMasterSettings(settings);
+  }
+
+  private updateMasterSettings(settings: MasterChainSettings, label: string) {
+    this.liveMusicHelper.setMasterSettings(settings);
+    this.masterSettings = this.liveMusicHelper.masterSettings;
+    localStorage.setItem(MASTER_SETTINGS_STORAGE_KEY, JSON.stringify(this.masterSettings));
+    this.addLog(`Master FX: ${label}`, 'info');
+  }
+
+  private updateMasterStage<S extends MasterStage>(stage: S, patch: Partial<MasterChainSettings[S]>) {
+    const settings = { ...this.masterSettings, [stage]: { ...this.masterSettings[stage], ...patch } };
+    this.updateMasterSettings(settings, `${stage} ${JSON.stringify(patch)}`);
+  }
+
+  private loadAutoGain() {
+    try {
+      this.autoGain = { ...DEFAULT_AUTO_GAIN, ...JSON.parse(localStorage.getItem(AUTO_GAIN_STORAGE_KEY) || "{}") };
+    } catch (e) {
+      this.autoGain = { ...DEFAULT_AUTO_GAIN };
+    }
+    this.liveMusicHelper.setAutoGain(this.autoGain);
+  }
+
+  private updateAutoGain(patch: Partial<AutoGainSettings>) {
+    this.autoGain = { ...this.autoGain, ...patch };
+    this.liveMusicHelper.setAutoGain(this.autoGain);
+    localStorage.setItem(AUTO_GAIN_STORAGE_KEY, JSON.stringify(this.autoGain));
+    this.addLog(`Auto gain ${this.autoGain.enabled ? `on, target ${this.autoGain.target} LUFS` : "off"}`, 'info');
+  }
+
+  private formatLoudness(value: number | undefined) {
+    return value !== undefined && Number.isFinite(value) ? value.toFixed(1) : "-∞";
+  }
+
+  private get activeMasterPreset(): MasterPresetName | null {
+    const current = JSON.stringify(this.masterSettings);
+    const names = Object.keys(MASTER_PRESETS) as MasterPresetName[];
+    return names.find(name => JSON.stringify(MASTER_PRESETS[name]) === current) ?? null;
+  }
+
   private async startVibeCapture() {
     if (this.isCapturingVibe) return;
     if (this.prompts.length === 0) {
@@ -251,52 +957,105 @@ export class LyriaCamera extends LitElement {
       return;
     }
     
+    const ctx = this.liveMusicHelper.audioContext;
+    const label = CAPTURE_DURATIONS.find(d => d.seconds === this.captureDuration)?.label ?? `${this.captureDuration}s`;
     this.isCapturingVibe = true;
     this.captureProgress = 0;
-    this.addLog("Starting vibe capture (5m)", 'info');
-    this.toastMessageElement.show("Recording a 5-minute Vibe composition...");
-    
-    const ctx = this.liveMusicHelper.audioContext;
-    this.recordingDestination = ctx.createMediaStreamDestination();
-    this.liveMusicHelper.connectRecorder(this.recordingDestination);
-    this.mediaRecorder = new MediaRecorder(this.recordingDestination.stream);
-    this.recordedChunks = [];
+    this.captureElapsed = 0;
+    this.addLog(`Starting vibe capture (${label}, ${this.captureFormat.toUpperCase()})`, 'info');
+    this.toastMessageElement.show(this.captureDuration > 0 ? `Recording a ${label} Vibe composition...` : "Recording a Vibe composition. Tap again to stop.");
     
-    this.mediaRecorder.ondataavailable = (e) => this.recordedChunks.push(e.data);
-    this.mediaRecorder.onstop = async () => {
-      const blob = new Blob(this.recordedChunks, { type: 'audio/webm' });
-      const name = prompt("Name this composition:", `Vibe ${this.favorites.length + 1}`) || `Vibe ${this.favorites.length + 1}`;
-      
-      const newEcho: FavoriteVibeRecord = {
-        id: Math.random().toString(36).substr(2, 9),
-        name,
-        prompts: [...this.prompts],
-        timestamp: Date.now(),
-        blob,
-        blobUrl: URL.createObjectURL(blob)
-      };
-      
-      await this.saveEchoToDB(newEcho);
-      this.favorites = [newEcho, ...this.favorites];
-      this.toastMessageElement.show("Composition saved to Vibes.");
-      this.addLog(`Vibe saved: ${name}`, 'info');
-      this.playFeedbackSound('save');
-      this.isCapturingVibe = false;
-      if (this.recordingDestination) this.liveMusicHelper.disconnectRecorder(this.recordingDestination);
+    this.pcmRecorder = new PcmRecorder(ctx.sampleRate, 2);
+    this.liveMusicHelper.connectRecorder(this.pcmRecorder);
+    this.captureStartTime = ctx.currentTime;
+
+    if (this.captureDuration > 0) {
+      // The end is scheduled on the audio clock, which keeps time while the tab is
+      // hidden and its timers are throttled.
+      const endNode = ctx.createConstantSource();
+      endNode.offset.value = 0;
+      endNode.connect(ctx.destination);
+      endNode.onended = () => void this.finishVibeCapture();
+      endNode.start();
+      endNode.stop(this.captureStartTime + this.captureDuration);
+      this.captureEndNode = endNode;
+    }
+
+    // Display only; elapsed time is always read from the audio clock.
+    this.captureIntervalId = window.setInterval(() => this.updateCaptureProgress(), 250);
+  }
+
+  private updateCaptureProgress() {
+    this.captureElapsed = this.liveMusicHelper.audioContext.currentTime - this.captureStartTime;
+    this.captureProgress = this.captureDuration > 0 ? Math.min(100, (this.captureElapsed / this.captureDuration) * 100) : 0;
+  }
+
+  private toggleVibeCapture() {
+    if (this.isCapturingVibe) void this.finishVibeCapture();
+    else void this.startVibeCapture();
+  }
+
+  private async finishVibeCapture() {
+    if (this.captureIntervalId) clearInterval(this.captureIntervalId);
+    this.captureIntervalId = null;
+    if (this.captureEndNode) {
+      this.captureEndNode.onended = null;
+      try { this.captureEndNode.stop(); } catch (e) {}
+      this.captureEndNode.disconnect();
+      this.captureEndNode = null;
+    }
+    const recorder = this.pcmRecorder;
+    if (!recorder) return;
+    this.pcmRecorder = null;
+
+    // Chunks are buffered ahead of playback, so keep only what was actually heard.
+    let elapsed = this.liveMusicHelper.audioContext.currentTime - this.captureStartTime;
+    if (this.captureDuration > 0) elapsed = Math.min(elapsed, this.captureDuration);
+    await this.liveMusicHelper.disconnectRecorder(recorder);
+
+    const name = prompt("Name this composition:", `Vibe ${this.favorites.length + 1}`) || `Vibe ${this.favorites.length + 1}`;
+    const prompts = [...this.prompts];
+    const loudness = recorder.integratedLoudness(elapsed);
+    const blob = recorder.export(this.captureFormat, {
+      title: name,
+      comment: prompts.map(p => `${p.text} (${p.weight.toFixed(2)})`).join("; "),
+      date: new Date().toISOString().slice(0, 10),
+    }, elapsed);
+
+    const newEcho: FavoriteVibeRecord = {
+      id: Math.random().toString(36).substr(2, 9),
+      name,
+      prompts,
+      timestamp: Date.now(),
+      format: this.captureFormat,
+      mimeType: EXPORT_MIME_TYPES[this.captureFormat],
+      integratedLoudness: Number.isFinite(loudness) ? loudness : undefined,
+      blob,
+      blobUrl: URL.createObjectURL(blob)
     };
 
-    this.mediaRecorder.start();
+    await this.saveEchoToDB(newEcho);
+    this.favorites = [newEcho, ...this.favorites];
+    this.toastMessageElement.show("Composition saved to Vibes.");
+    this.addLog(`Vibe saved: ${name} (${recorder.duration.toFixed(1)}s ${newEcho.format.toUpperCase()}, ${(blob.size / 1e6).toFixed(1)} MB)`, 'info');
+    this.playFeedbackSound('save');
+    this.isCapturingVibe = false;
+    if (this.appState === "playing") this.startTimer();
+  }
+
+  private setCaptureDuration(seconds: number) {
+    this.captureDuration = seconds;
+    localStorage.setItem(CAPTURE_DURATION_STORAGE_KEY, String(seconds));
+  }
 
-    let duration = 300000; // 300 seconds (5 minutes)
-    let start = Date.now();
-    this.captureIntervalId = window.setInterval(() => {
-      let elapsed = Date.now() - start;
-      this.captureProgress = (elapsed / duration) * 100;
-      if (elapsed >= duration) {
-        clearInterval(this.captureIntervalId!);
-        this.mediaRecorder?.stop();
-      }
-    }, 100);
+  private formatClock(seconds: number) {
+    const s = Math.max(0, Math.floor(seconds));
+    return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, "0")}`;
+  }
+
+  private setCaptureFormat(format: AudioExportFormat) {
+    this.captureFormat = format;
+    localStorage.setItem(CAPTURE_FORMAT_STORAGE_KEY, format);
   }
 
   private randomizeWeights() {
@@ -338,42 +1097,123 @@ export class LyriaCamera extends LitElement {
   private downloadEcho(echo: FavoriteVibeRecord) {
     const a = document.createElement('a');
     a.href = echo.blobUrl!;
-    a.download = `${echo.name.replace(/\s+/g, '_')}.mp3`;
+    a.download = `${echo.name.replace(/\s+/g, '_')}.${echo.format}`;
     a.click();
   }
 
   private stopCurrentStream() {
+    this.releaseVideoFile();
     if (!this.videoElement || !this.videoElement.srcObject) return;
     (this.videoElement.srcObject as MediaStream).getTracks().forEach((track) => track.stop());
     this.videoElement.srcObject = null;
   }
 
-  private async updateCameraCapabilities() {
+  private async refreshCameras() {
     try {
-      const devices = await navigator.mediaDevices.enumerateDevices();
-      this.hasMultipleCameras = devices.filter((d) => d.kind === "videoinput").length > 1;
+      this.cameras = await listCameras();
     } catch (e) { console.warn(e); }
   }
 
+  private loadCameraSettings(): CameraSettings {
+    try {
+      return { ...DEFAULT_CAMERA_SETTINGS, ...JSON.parse(localStorage.getItem(CAMERA_STORAGE_KEY) || "{}") };
+    } catch (e) {
+      return { ...DEFAULT_CAMERA_SETTINGS };
+    }
+  }
+
+  private updateCameraSettings(patch: Partial<CameraSettings>) {
+    this.cameraSettings = { ...this.cameraSettings, ...patch };
+    localStorage.setItem(CAMERA_STORAGE_KEY, JSON.stringify(this.cameraSettings));
+    if (this.currentSource !== "camera") return;
+    // Mirroring is only a display transform; everything else needs the camera reopened.
+    if (Object.keys(patch).every(k => k === "mirror")) this.isVideoFlipped = this.cameraMirrored;
+    else void this.setupCamera();
+  }
+
+  private get cameraMirrored() {
+    return this.cameraSettings.mirror ?? this.activeCamera?.autoMirror ?? false;
+  }
+
   private async setupCamera() {
     this.ensureUiAudio();
     this.stopCurrentStream();
+    this.cameraOpening = true;
+    let reopen = false;
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        video: { ...PREFERRED_STREAM_PARAMS, facingMode: this.currentFacingMode } 
+      await this.refreshCameras();
+      const device = findCamera(this.cameras, this.cameraSettings);
+      // Until permission is granted, Firefox and Safari list no cameras to match against.
+      const listedBeforeGrant = this.cameras.length > 0;
+      if (this.cameraSettings.deviceId && !device && listedBeforeGrant) this.warnCameraMissing();
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: cameraConstraints(this.cameraSettings, device?.deviceId, this.currentFacingMode),
       });
       this.page = "main";
       this.currentSource = "camera";
+      this.cameraDisconnected = false;
       await (this as any).updateComplete;
-      this.setStream(stream, "camera", this.currentFacingMode === "user");
+      const track = stream.getVideoTracks()[0];
+      const settings = track.getSettings();
+      // Front cameras are mirrored like a mirror; without a facing mode, only a requested front camera is.
+      const facing = settings.facingMode ?? (device ? undefined : this.currentFacingMode);
+      this.activeCamera = { deviceId: settings.deviceId ?? null, label: track.label, width: settings.width, height: settings.height, frameRate: settings.frameRate, autoMirror: facing === "user" };
+      this.setStream(stream, "camera", this.cameraMirrored);
+      this.addLog(`Camera: ${track.label || "default"}${settings.width ? `, ${settings.width}×${settings.height}` : ""}${settings.frameRate ? ` @ ${Math.round(settings.frameRate)} fps` : ""}`, 'info');
+      // Labels only appear once permission is granted.
+      await this.refreshCameras();
+      if (this.cameraSettings.deviceId && !device && !listedBeforeGrant) {
+        const chosen = findCamera(this.cameras, this.cameraSettings);
+        reopen = !!chosen && chosen.deviceId !== this.activeCamera.deviceId;
+        if (!chosen) this.warnCameraMissing();
+      }
     } catch (e: any) { this.dispatchError(e.message || "Camera error."); }
+    finally { this.cameraOpening = false; }
+    if (reopen) {
+      this.addLog(`Switching to the chosen camera "${this.cameraSettings.label ?? this.cameraSettings.deviceId}" now that it can be identified`, 'info');
+      await this.setupCamera();
+    }
   }
 
+  private warnCameraMissing() {
+    this.addLog(`Camera "${this.cameraSettings.label ?? this.cameraSettings.deviceId}" is not connected; using the default camera until it returns`, 'warn');
+  }
+
+  /** Steps through the connected cameras once one has been picked; otherwise flips between front and back. */
   private async switchCamera() {
+    if (this.cameraSettings.deviceId && this.cameras.length > 1) {
+      const index = this.cameras.findIndex(d => d.deviceId === this.activeCamera?.deviceId);
+      const next = this.cameras[(index + 1) % this.cameras.length];
+      this.updateCameraSettings({ deviceId: next.deviceId, label: next.label || null });
+      return;
+    }
     this.currentFacingMode = this.currentFacingMode === "user" ? "environment" : "user";
     await this.setupCamera();
   }
 
+  private handleCameraLost() {
+    this.cameraDisconnected = true;
+    this.addLog(`Camera "${this.activeCamera?.label || "default"}" disconnected; waiting for a camera to return`, 'warn');
+    this.toastMessageElement.show("Camera disconnected. It will resume when it reconnects.");
+  }
+
+  /**
+   * Reopens the camera when one comes back after a disconnect, or when the
+   * chosen camera reappears while a stand-in is open.
+   */
+  private handleDeviceChange = async () => {
+    await this.refreshCameras();
+    if (this.currentSource !== "camera" || this.cameraOpening) return;
+    const chosen = findCamera(this.cameras, this.cameraSettings);
+    if (this.cameraDisconnected && this.cameras.length > 0) {
+      this.addLog("Camera reconnected", 'info');
+      await this.setupCamera();
+    } else if (chosen && chosen.deviceId !== this.activeCamera?.deviceId) {
+      this.addLog(`Chosen camera "${chosen.label || chosen.deviceId}" is back`, 'info');
+      await this.setupCamera();
+    }
+  };
+
   private async setupScreenShare() {
     this.ensureUiAudio();
     try {
@@ -391,133 +1231,652 @@ export class LyriaCamera extends LitElement {
   }
 
   private handleFileChange(e: Event) {
-    const file = (e.target as HTMLInputElement).files?.[0];
+    const files = [...((e.target as HTMLInputElement).files ?? [])];
+    this.fileInput.value = "";
+    this.openImageFiles(files);
+  }
+
+  /** One image goes to the preview; several become a slideshow to arrange. */
+  private openImageFiles(files: File[]) {
+    if (files.length > 1) {
+      this.openSlideshowEditor();
+      void this.addSlides(files);
+      return;
+    }
+    const file = files[0];
     if (!file) return;
     const reader = new FileReader();
     reader.onload = (ev) => {
       this.imagePreviewSrc = ev.target?.result as string;
       this.page = "preview";
-      this.fileInput.value = "";
     };
     reader.readAsDataURL(file);
   }
 
-  private async confirmImageUpload() {
-    this.uploadedImageSrc = this.imagePreviewSrc;
-    this.currentSource = "image";
+  private handleDragOver(e: DragEvent) {
+    e.preventDefault();
+    if (e.dataTransfer) e.dataTransfer.dropEffect = "copy";
+  }
+
+  private handleSplashDrop(e: DragEvent) {
+    e.preventDefault();
+    this.ensureUiAudio();
+    const files = [...(e.dataTransfer?.files ?? [])];
+    const video = files.find(f => f.type.startsWith("video/"));
+    if (video) void this.loadVideoFile(video);
+    else this.openImageFiles(files.filter(f => f.type.startsWith("image/")));
+  }
+
+  private triggerVideoUpload() {
+    this.ensureUiAudio();
+    this.videoInput.click();
+  }
+
+  private handleVideoFileChange(e: Event) {
+    const input = e.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = "";
+    if (file) void this.loadVideoFile(file);
+  }
+
+  private async loadVideoFile(file: File) {
+    this.stopCurrentStream();
     this.page = "main";
-    this.imagePreviewSrc = null;
-    this.appState = "idle"; 
+    this.currentSource = "video";
+    this.isVideoFlipped = false;
+    this.clipTime = 0;
+    this.clipDuration = 0;
+    this.clipPaused = true;
     await (this as any).updateComplete;
-  }
 
-  private cancelImageUpload() {
-    this.imagePreviewSrc = null;
-    this.page = this.currentSource === "none" ? "splash" : "main";
+    const video = this.videoElement;
+    this.videoFileUrl = URL.createObjectURL(file);
+    video.onloadedmetadata = () => {
+      this.clipDuration = video.duration;
+      this.addLog(`Video loaded: ${file.name} (${this.formatClock(video.duration)})`, 'info');
+    };
+    video.ontimeupdate = () => this.clipTime = video.currentTime;
+    video.onplay = () => this.handleClipPlay();
+    video.onpause = () => this.handleClipPause();
+    video.onseeked = () => {
+      this.clipTime = video.currentTime;
+      // Sampled frames from before the jump would misdescribe how the view got here.
+      this.frameHistory.clear();
+      this.syncClipCue(video.currentTime);
+    };
+    video.src = this.videoFileUrl;
   }
 
-  private setStream(stream: MediaStream, source: StreamSource, flipped: boolean) {
-    this.isVideoFlipped = flipped;
-    if (this.videoElement) {
-      this.videoElement.srcObject = stream;
-      this.videoElement.onloadedmetadata = () => {
-        this.videoElement.play();
-        void this.updateCameraCapabilities();
-      };
+  private releaseVideoFile() {
+    if (!this.videoFileUrl) return;
+    const video = this.videoElement;
+    if (video) {
+      video.onloadedmetadata = video.ontimeupdate = video.onplay = video.onpause = video.onseeked = null;
+      video.pause();
+      video.removeAttribute("src");
+      video.load();
     }
-    stream.getVideoTracks()[0].onended = () => this.resetSession();
+    URL.revokeObjectURL(this.videoFileUrl);
+    this.videoFileUrl = null;
+    this.clipCues = [];
+    this.activeCueId = null;
   }
 
-  private startTimer() {
-    this.stopTimer();
-    if (this.intervalPreset.captureSeconds === 0) return;
-    
-    // Exponential backoff to respect rate limits
-    const backoffMs = this.analysisBackoffFactor * 10000;
-    this.nextCaptureTime = performance.now() + (this.intervalPreset.captureSeconds * 1000) + backoffMs;
-    this.tick();
+  /** The clip and the music pause and resume together, whichever one the user touched. */
+  private handleClipPlay() {
+    this.clipPaused = false;
+    this.pauseWhenPlaying = false;
+    if (this.appState === "paused") void this.requestResume();
   }
 
-  private tick = () => {
-    if (this.isCapturingVibe || this.intervalPreset.captureSeconds === 0) return;
-    const remainingMs = this.nextCaptureTime - performance.now();
-    this.captureCountdown = Math.max(0, Math.ceil(remainingMs / 1000));
-    if (remainingMs <= 0) { void this.captureAndGenerate(); } 
-    else { this.timerRafId = requestAnimationFrame(this.tick); }
-  };
+  private handleClipPause() {
+    this.clipPaused = true;
+    if (this.appState === "playing") this.requestPause();
+  }
 
-  private stopTimer() {
-    if (this.timerRafId) cancelAnimationFrame(this.timerRafId);
-    this.timerRafId = null;
+  private toggleClip() {
+    if (this.videoElement.paused) void this.videoElement.play();
+    else this.videoElement.pause();
   }
 
-  private async captureAndGenerate() {
-    if (this.promptsLoading || this.page === "splash" || this.isCoolingDown) return;
-    
-    this.playFeedbackSound('capture');
-    this.promptsLoading = true;
-    this.addLog(`Analyzing visual scene using ${GEMINI_MODEL}...`, 'info');
-    
-    const snapshot = this.getStreamSnapshot();
-    if (!snapshot) { 
-      this.promptsLoading = false; 
-      this.startTimer(); 
-      this.addLog("Capture failed: No stream data", 'error');
-      return; 
+  private seekClip(time: number) {
+    this.videoElement.currentTime = time;
+    this.clipTime = time;
+  }
+
+  /** Crossfades to the cue governing `time`, if it is not the one already playing. */
+  private syncClipCue(time: number) {
+    if (this.appState === "idle" || this.appState === "pendingStart") return;
+    const cue = clipCueAt(this.clipCues, time);
+    if (!cue || cue.id === this.activeCueId) return;
+    this.activeCueId = cue.id;
+    this.lastAnalyzer = cue.analyzer;
+    this.addLog(`Clip cue at ${this.formatClock(cue.time)}: ${cue.analysis.prompts.map(p => p.text).join(" / ")}`, 'info');
+    this.applySceneAnalysis(cue.analysis);
+    this.startCrossfade(cue.analysis.prompts);
+    // Scene changes are measured from where the cue took over.
+    const frame = this.getAnalysisFrame();
+    if (frame) this.sceneDetector.setReference(frame.element);
+  }
+
+  /**
+   * Whether the clip has reached a frame worth analyzing: a fixed timecode
+   * without a cue yet or, for the scene-change preset, a cut away from the
+   * current cue. Cues from earlier passes are reused rather than re-analyzed.
+   */
+  private shouldSampleClip(video: HTMLVideoElement, time: number) {
+    const { captureSeconds, sceneChange } = this.intervalPreset;
+    if (video.paused || video.seeking || this.appState !== "playing" || captureSeconds === 0) return false;
+    if (!sceneChange) {
+      const slot = Math.floor(time / captureSeconds) * captureSeconds;
+      this.captureCountdown = Math.max(0, Math.ceil(slot + captureSeconds - time));
+      return !hasCueBetween(this.clipCues, slot, slot + captureSeconds);
     }
-    
+
+    const cue = clipCueAt(this.clipCues, time);
+    if (!cue) return true;
+    const now = performance.now();
+    if (now - this.lastSceneCheck < SCENE_CHECK_INTERVAL_MS) return false;
+    this.lastSceneCheck = now;
+    this.captureCountdown = Math.max(0, Math.ceil(cue.time + captureSeconds - time));
+    // A cue just ahead will take over before a new analysis would finish.
+    if (time - cue.time < sceneChange.minSeconds || hasCueBetween(this.clipCues, time, time + sceneChange.minSeconds)) return false;
+    if (time - cue.time >= captureSeconds) return true;
+    const frame = this.getAnalysisFrame();
+    if (!frame || !this.sceneDetector.hasReference) return false;
+    this.sceneDifference = this.sceneDetector.difference(frame.element);
+    if (this.sceneDifference < sceneChange.threshold) return false;
+    this.addLog(`Scene change detected at ${this.formatClock(time)} (Δ ${this.sceneDifference.toFixed(2)})`, 'info');
+    return true;
+  }
+
+  private openSlideshowEditor() {
+    this.ensureUiAudio();
+    this.slides = [];
+    this.slideshowId = null;
+    this.slideshowName = "";
+    this.page = "slideshow";
+  }
+
+  private async addSlides(files: File[]) {
+    const images = files.filter(f => f.type.startsWith("image/"));
+    if (images.length === 0) return;
+    this.slidesLoading = true;
+    try {
+      const added: Slide[] = [];
+      for (const file of images) {
+        try {
+          added.push(await createSlide(file));
+        } catch (e: any) {
+          this.addLog(`Could not read ${file.name}: ${e.message || e}`, 'warn');
+        }
+      }
+      this.slides = [...this.slides, ...added];
+    } finally {
+      this.slidesLoading = false;
+    }
+  }
+
+  private handleSlidesInput(e: Event) {
+    const files = [...((e.target as HTMLInputElement).files ?? [])];
+    this.slidesInput.value = "";
+    void this.addSlides(files);
+  }
+
+  private handleSlideDrop(e: DragEvent) {
+    e.preventDefault();
+    void this.addSlides([...(e.dataTransfer?.files ?? [])]);
+  }
+
+  private updateSlide(index: number, patch: Partial<Slide>) {
+    this.slides = this.slides.map((s, i) => (i === index ? { ...s, ...patch } : s));
+  }
+
+  private loadSlideshows() {
+    if (!this.db) return;
+    const request = this.db.transaction("slideshows", "readonly").objectStore("slideshows").getAll();
+    request.onsuccess = () => {
+      this.savedSlideshows = ((request.result || []) as Slideshow[]).sort((a, b) => b.updatedAt - a.updatedAt);
+    };
+  }
+
+  private putSlideshow(slideshow: Slideshow) {
+    if (!this.db) return;
+    this.db.transaction("slideshows", "readwrite").objectStore("slideshows").put(slideshow);
+    this.savedSlideshows = [slideshow, ...this.savedSlideshows.filter(s => s.id !== slideshow.id)];
+  }
+
+  private saveSlideshow() {
+    if (this.slides.length === 0) return;
+    const slideshow: Slideshow = {
+      id: this.slideshowId ?? crypto.randomUUID(),
+      name: this.slideshowName.trim() || `Slideshow ${this.savedSlideshows.length + 1}`,
+      // Local fallbacks only stand in for the session; the provider should analyze those slides later.
+      slides: this.slides.map(s => (s.analyzer === "heuristic" ? { ...s, analysis: undefined, analyzer: undefined } : s)),
+      updatedAt: Date.now(),
+    };
+    this.slideshowId = slideshow.id;
+    this.slideshowName = slideshow.name;
+    this.putSlideshow(slideshow);
+    this.toastMessageElement.show("Slideshow saved.");
+    this.addLog(`Slideshow saved: ${slideshow.name} (${slideshow.slides.length} slides, ${this.formatClock(totalSlideSeconds(slideshow.slides))})`, 'info');
+  }
+
+  private openSavedSlideshow(slideshow: Slideshow) {
+    this.slides = slideshow.slides.map(s => ({ ...s }));
+    this.slideshowId = slideshow.id;
+    this.slideshowName = slideshow.name;
+  }
+
+  private deleteSavedSlideshow(id: string) {
+    if (!this.db) return;
+    this.db.transaction("slideshows", "readwrite").objectStore("slideshows").delete(id);
+    this.savedSlideshows = this.savedSlideshows.filter(s => s.id !== id);
+    if (this.slideshowId === id) this.slideshowId = null;
+  }
+
+  private cancelSlideshowEditor() {
+    this.page = this.currentSource === "none" ? "splash" : "main";
+  }
+
+  private async beginSlideshow() {
+    if (this.slides.length === 0) return;
+    this.stopCurrentStream();
+    this.currentSource = "slideshow";
+    this.isVideoFlipped = false;
+    this.page = "main";
+    this.appState = "idle";
+    this.uploadedImageSrc = null;
+    this.showSlide(0);
+    await (this as any).updateComplete;
+  }
+
+  /** Back to the arrangement; playback stops so the slideshow restarts cleanly. */
+  private editSlideshow() {
+    void this.requestStop();
+    this.page = "slideshow";
+  }
+
+  /** Shows a slide and, when its analysis is cached, crossfades straight to its vibe. */
+  private showSlide(index: number) {
+    let slide = this.slides[index];
+    if (!slide) return;
+    // A local fallback only stands in for one turn; the provider gets another go once it's reachable.
+    if (slide.analyzer === "heuristic" && this.providerReachable) {
+      slide = { ...slide, analysis: undefined, analyzer: undefined };
+      this.slides = this.slides.map((s, i) => (i === index ? slide : s));
+    }
+    const previous = this.uploadedImageSrc;
+    this.fadingSlideSrc = slide.transition === "fade" && previous && previous !== slide.src ? previous : null;
+    this.slideIndex = index;
+    this.slideElapsed = 0;
+    this.captureCountdown = slide.durationSeconds;
+    this.uploadedImageSrc = slide.src;
+    // The same image again fires no load event.
+    if (previous === slide.src) this.loadedSlideId = slide.id;
+    // Fingerprints and sampled frames of the previous slide say nothing about this one.
+    this.sceneDetector.clearReference();
+    this.frameHistory.clear();
+    if (!slide.analysis || this.appState !== "playing") return;
+    this.lastAnalyzer = slide.analyzer ?? "heuristic";
+    this.addLog(`Slide ${index + 1}: ${slide.name} (cached analysis)`, 'info');
+    this.applySceneAnalysis(slide.analysis);
+    this.startCrossfade(slide.analysis.prompts);
+  }
+
+  private handleImageLoad() {
+    if (this.currentSource === "slideshow") this.loadedSlideId = this.slides[this.slideIndex]?.id ?? null;
+  }
+
+  /** Whether an analysis started now would reach the vision provider rather than the local analyzer. */
+  private get providerReachable() {
+    if (!navigator.onLine && this.visionProvider.kind === "gemini") return false;
+    return this.visionProvider.kind === "mock" || this.scheduler.waitMs <= MAX_QUOTA_WAIT_MS;
+  }
+
+  /** Stores an analysis on its slide, and on the saved arrangement it came from. */
+  private cacheSlideAnalysis(id: string, analysis: SceneAnalysis, analyzer: AnalyzerKind) {
+    this.slides = this.slides.map(s => (s.id === id ? { ...s, analysis, analyzer } : s));
+    if (analyzer === "heuristic") return;
+    const saved = this.savedSlideshows.find(s => s.id === this.slideshowId);
+    if (saved) this.putSlideshow({ ...saved, slides: saved.slides.map(s => (s.id === id ? { ...s, analysis, analyzer } : s)) });
+  }
+
+  /**
+   * Advances the slideshow on its own clock, which stands still while the
+   * music is paused, and analyzes slides that have no cached analysis yet.
+   */
+  private tickSlideshow() {
+    const now = performance.now();
+    if (this.appState === "playing") this.slideElapsed += (now - this.lastSlideTick) / 1000;
+    this.lastSlideTick = now;
+    const slide = this.slides[this.slideIndex];
+    if (!slide) return;
+    if (this.slideElapsed >= slide.durationSeconds) {
+      this.showSlide((this.slideIndex + 1) % this.slides.length);
+    } else {
+      this.captureCountdown = Math.max(0, Math.ceil(slide.durationSeconds - this.slideElapsed));
+      if (!slide.analysis && this.appState === "playing" && this.loadedSlideId === slide.id && !this.promptsLoading && !this.awaitingQuota) void this.captureAndGenerate();
+    }
+    this.timerRafId = requestAnimationFrame(this.tick);
+  }
+
+  private async confirmImageUpload() {
+    this.uploadedImageSrc = this.imagePreviewSrc;
+    this.currentSource = "image";
+    this.page = "main";
+    this.imagePreviewSrc = null;
+    this.appState = "idle"; 
+    await (this as any).updateComplete;
+  }
+
+  private cancelImageUpload() {
+    this.imagePreviewSrc = null;
+    this.page = this.currentSource === "none" ? "splash" : "main";
+  }
+
+  private setStream(stream: MediaStream, source: StreamSource, flipped: boolean) {
+    this.isVideoFlipped = flipped;
+    if (this.videoElement) {
+      this.videoElement.srcObject = stream;
+      this.videoElement.onloadedmetadata = () => {
+        this.videoElement.play();
+      };
+    }
+    // A lost camera may come back; a shared screen that ends does not.
+    stream.getVideoTracks()[0].onended = () => (source === "camera" ? this.handleCameraLost() : this.resetSession());
+  }
+
+  private startTimer() {
+    this.stopTimer();
+    // Clips and slideshows always need the tick, to follow their cues and slides even without automatic analysis.
+    if (this.intervalPreset.captureSeconds === 0 && this.currentSource !== "video" && this.currentSource !== "slideshow") return;
+    this.lastSlideTick = performance.now();
+    
+    const now = performance.now();
+    this.nextCaptureTime = now + (this.intervalPreset.captureSeconds * 1000);
+    this.earliestCaptureTime = now + ((this.intervalPreset.sceneChange?.minSeconds ?? 0) * 1000);
+    this.tick();
+  }
+
+  private tick = () => {
+    // Slides keep their timing while a vibe is recorded; everything else holds still.
+    if (this.currentSource === "slideshow") { this.tickSlideshow(); return; }
+    if (this.isCapturingVibe) return;
+    if (this.currentSource === "video") {
+      const time = this.videoElement.currentTime;
+      this.syncClipCue(time);
+      // Cues keep being followed while a capture waits for quota or its analysis;
+      // armed first so a capture that restarts the timer replaces this frame.
+      this.timerRafId = requestAnimationFrame(this.tick);
+      if (!this.promptsLoading && !this.awaitingQuota && this.shouldSampleClip(this.videoElement, time)) void this.captureAndGenerate();
+      return;
+    }
+    if (this.intervalPreset.captureSeconds === 0) return;
+    const now = performance.now();
+    const remainingMs = this.nextCaptureTime - now;
+    this.captureCountdown = Math.max(0, Math.ceil(remainingMs / 1000));
+    if (remainingMs <= 0) { void this.captureAndGenerate(); } 
+    else if (this.hasSceneChanged(now)) {
+      this.addLog(`Scene change detected (Δ ${this.sceneDifference.toFixed(2)})`, 'info');
+      void this.captureAndGenerate();
+    }
+    else { this.timerRafId = requestAnimationFrame(this.tick); }
+  };
+
+  /** For the scene-change preset: whether the view has drifted far enough, and long enough ago, to re-analyze. */
+  private hasSceneChanged(now: number) {
+    const trigger = this.intervalPreset.sceneChange;
+    if (!trigger || now - this.lastSceneCheck < SCENE_CHECK_INTERVAL_MS) return false;
+    this.lastSceneCheck = now;
+    const frame = this.getAnalysisFrame();
+    if (!frame || !this.sceneDetector.hasReference) return false;
+    this.sceneDifference = this.sceneDetector.difference(frame.element);
+    return now >= this.earliestCaptureTime && this.sceneDifference >= trigger.threshold;
+  }
+
+  private stopTimer() {
+    if (this.timerRafId) cancelAnimationFrame(this.timerRafId);
+    this.timerRafId = null;
+  }
+
+  private async captureAndGenerate(priority: RequestPriority = "timed") {
+    if (this.promptsLoading || this.page === "splash") return;
+    if (this.awaitingQuota) {
+      if (priority === "timed" || this.awaitingQuota === "manual") return;
+      // A manual capture overtakes a timed one that is still waiting for quota.
+      this.scheduler.cancel("timed");
+    }
+    const offline = !navigator.onLine && this.visionProvider.kind === "gemini";
+    const metered = this.visionProvider.kind !== "mock";
+    // Rather than wait out a long cooldown or an empty budget, the local analyzer stands in.
+    const overBudget = metered && this.scheduler.waitMs > MAX_QUOTA_WAIT_MS;
+    const useLocal = offline || overBudget;
+
+    if (!useLocal && metered) {
+      this.awaitingQuota = priority;
+      if (this.scheduler.waitMs > 0) this.addLog(`Waiting ${this.formatWait(this.scheduler.status)} for analysis quota (${priority})`, 'info');
+      try {
+        await this.scheduler.acquire(priority);
+      } catch (e) {
+        if (e instanceof RequestCancelledError) return;
+        throw e;
+      } finally {
+        if (this.awaitingQuota === priority) this.awaitingQuota = null;
+      }
+    }
+    
+    this.playFeedbackSound('capture');
+    this.promptsLoading = true;
+    this.addLog(useLocal ? `Analyzing visual scene locally (${offline ? "offline" : this.quotaStatus?.state ?? "over budget"})...` : `Analyzing visual scene using ${this.visionProvider.label}...`, 'info');
+    
+    const snapshot = this.getStreamSnapshot();
+    // A canvas of its own, so background sampling can't overwrite it mid-analysis.
+    const frame = this.getAnalysisFrame(document.createElement("canvas"));
+    if (!snapshot) { 
+      this.promptsLoading = false; 
+      this.startTimer(); 
+      this.addLog("Capture failed: No stream data", 'error');
+      return; 
+    }
+    
     this.lastCapturedImage = snapshot;
-    const base64ImageData = snapshot.split(",")[1];
+    if (frame) this.sceneDetector.setReference(frame.element);
+    this.sceneDifference = 0;
+    const context = this.buildContextSnapshots(snapshot, frame);
+    const thumbnail = frame ? createThumbnail(frame.element, frame.width, frame.height) : snapshot;
+    const source = this.currentSource;
+    const clipTime = source === "video" ? this.videoElement.currentTime : null;
+    const slide = source === "slideshow" ? this.slides[this.slideIndex] : null;
     
     try {
-      const response = await this.ai.models.generateContent(this.getGenerateContentParams(base64ImageData));
-      const json = JSON.parse(response.text!);
-      const newPrompts = (json.prompts as string[]).map(text => ({ text, weight: 1.0 }));
-      
-      this.addLog(`New prompts generated. Updating music session...`, 'info');
-      this.analysisBackoffFactor = 0; 
-
-      if (this.appState === "pendingStart") {
-        this.prompts = newPrompts;
-        this.currentWeightedPrompts = newPrompts;
-        this.liveMusicHelper.setWeightedPrompts(newPrompts);
-        await this.liveMusicHelper.play();
-        this.appState = "playing";
-      } else {
-        this.startCrossfade(json.prompts);
+      let analysis: SceneAnalysis | null = null;
+      let analyzer: AnalyzerKind = "heuristic";
+      if (!useLocal) {
+        try {
+          // A repair request is a second paid call, so it waits for quota like the first,
+          // and gives way to the local analyzer under the same limit.
+          const beforeRepair = async () => {
+            if (this.scheduler.waitMs > MAX_QUOTA_WAIT_MS) throw new Error(`quota frees up in ${this.formatWait(this.scheduler.status)}`);
+            if (this.scheduler.waitMs > 0) this.addLog(`Waiting ${this.formatWait(this.scheduler.status)} for quota to request a repaired response`, 'info');
+            await this.scheduler.acquire(priority);
+          };
+          const result = await this.visionProvider.analyze(context.snapshots, this.buildAnalysisPrompt(context.frameContext), metered ? beforeRepair : undefined);
+          result.rejections.forEach(r => this.addLog(`Response check: ${r}`, 'warn'));
+          analysis = result.analysis;
+          analyzer = this.visionProvider.kind;
+          this.scheduler.reportSuccess();
+        } catch (e: any) {
+          // Stopping cancels a repair that was still waiting for quota.
+          if (e instanceof RequestCancelledError) return;
+          this.handleAnalysisError(e);
+        }
       }
-    } catch (e: any) {
-      const errorMsg = e.message || "";
-      const isRateLimit = errorMsg.includes("429") || errorMsg.includes("Too Many Requests") || errorMsg.includes("rate limit");
-      
-      if (isRateLimit) {
-        this.analysisBackoffFactor = Math.min(this.analysisBackoffFactor + 1, 6);
-        this.isCoolingDown = true;
-        this.addLog(`Rate limit hit on ${GEMINI_MODEL}. Throttling...`, 'warn');
-        this.toastMessageElement.show("AI is resting (Rate Limit). Resuming shortly...", 6000);
-        
-        setTimeout(() => {
-          this.isCoolingDown = false;
-          this.addLog("Cooldown period complete.", 'info');
-        }, 12000); 
+      if (!analysis) {
+        if (!frame) throw new Error("No frame for the local analyzer");
+        analysis = this.heuristicAnalyzer.analyze(frame.element);
+      }
+      const cue = clipTime !== null ? { id: crypto.randomUUID(), time: clipTime, analyzer, analysis } : null;
+      if (cue) this.clipCues = addClipCue(this.clipCues, cue);
+      if (slide) this.cacheSlideAnalysis(slide.id, analysis, analyzer);
+      // The playhead or the slideshow may have moved on while the analysis ran.
+      const superseded = this.appState === "playing" && (cue ? clipCueAt(this.clipCues, this.videoElement.currentTime)?.id !== cue.id : slide ? this.slides[this.slideIndex]?.id !== slide.id : false);
+      if (!superseded) {
+        if (cue) this.activeCueId = cue.id;
+        await this.applyAnalysis(analysis, analyzer);
+      } else if (cue) {
+        this.addLog(`Cue saved at ${this.formatClock(cue.time)}; it plays when the clip gets there`, 'info');
       } else {
-        this.addLog(`AI analysis failed: ${errorMsg}`, 'error');
-        this.dispatchError("AI analysis failed.");
+        this.addLog(`Analysis of ${slide!.name} cached for its next turn`, 'info');
       }
+      const entry: TimelineEntry = { id: crypto.randomUUID(), timestamp: Date.now(), thumbnail, source, analyzer, analysis, prompts: analysis.prompts.map(p => ({ ...p })) };
+      this.timeline = appendTimelineEntry(this.timeline, entry);
+      this.activeTimelineId = entry.id;
+    } catch (e: any) {
+      this.addLog(`Analysis failed: ${e.message || e}`, 'error');
+      this.dispatchError("AI analysis failed.");
     } finally {
       this.promptsLoading = false;
       this.startTimer();
     }
   }
 
+  /** Logs a failed provider call and starts a cooldown on rate limits; the caller falls back locally. */
+  private handleAnalysisError(e: any) {
+    const errorMsg = e.message || "";
+    if (isRateLimit(e)) {
+      const retryAfterMs = e instanceof RateLimitError ? e.retryAfterMs : null;
+      this.addLog(`Rate limit hit on ${this.visionProvider.label}${retryAfterMs !== null ? ` (retry after ${Math.ceil(retryAfterMs / 1000)}s)` : ""}. Throttling...`, 'warn');
+      this.scheduler.reportRateLimit(retryAfterMs);
+      this.toastMessageElement.show("AI is resting (Rate Limit). Using the local analyzer meanwhile.", 6000);
+    } else if (e instanceof AnalysisValidationError) {
+      e.problems.forEach(p => this.addLog(`Response check: ${p}`, 'warn'));
+      this.addLog(`${this.visionProvider.label} gave no usable analysis. Falling back to the local analyzer.`, 'warn');
+    } else {
+      this.addLog(`AI analysis failed: ${errorMsg}. Falling back to the local analyzer.`, 'warn');
+    }
+  }
+
+  private async applyAnalysis(analysis: SceneAnalysis, analyzer: AnalyzerKind) {
+    const newPrompts = analysis.prompts;
+    this.lastAnalyzer = analyzer;
+    this.addLog(`New prompts generated by ${analyzer === "heuristic" ? "local analyzer" : this.visionProvider.label}. Updating music session...`, 'info');
+    this.applySceneAnalysis(analysis);
+
+    if (this.appState === "pendingStart") {
+      this.prompts = newPrompts;
+      this.currentWeightedPrompts = newPrompts;
+      this.unmodulatedPrompts = newPrompts;
+      this.liveMusicHelper.setWeightedPrompts(newPrompts);
+      await this.liveMusicHelper.play();
+      this.appState = "playing";
+      if (this.currentSource === "video") void this.videoElement.play();
+    } else {
+      this.startCrossfade(newPrompts);
+    }
+  }
+
+
   private getStreamSnapshot() {
-    const el = this.currentSource === "image" ? this.uploadedImageElement : this.videoElement;
+    const el = this.showsImage ? this.uploadedImageElement : this.videoElement;
     if (!el && this.uploadedImageSrc) return this.uploadedImageSrc; 
+    const frame = this.getAnalysisFrame();
+    if (!frame) return null;
+    return this.drawToCanvas(frame.element, frame.width, frame.height);
+  }
+
+  /**
+   * The stream frame cropped to the source's region of interest and scaled to
+   * at most `MAX_CAPTURE_DIM`, or the element itself when there is no region.
+   */
+  private getAnalysisFrame(canvas = this.regionCanvas) {
+    const frame = this.getStreamElement();
+    const region = this.activeRegion;
+    if (!frame || isFullRegion(region)) return frame;
+    const { sx, sy, sw, sh } = regionToPixels(region, frame.width, frame.height);
+    const scale = Math.min(1, MAX_CAPTURE_DIM / Math.max(sw, sh));
+    canvas.width = Math.max(1, Math.round(sw * scale));
+    canvas.height = Math.max(1, Math.round(sh * scale));
+    canvas.getContext("2d")?.drawImage(frame.element, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+    return { element: canvas as HTMLImageElement | HTMLVideoElement | HTMLCanvasElement, width: canvas.width, height: canvas.height };
+  }
+
+  private get activeRegion() {
+    return this.regions[this.currentSource] ?? FULL_REGION;
+  }
+
+  private loadRegions(): Partial<Record<StreamSource, Region>> {
+    try {
+      return JSON.parse(localStorage.getItem(REGION_STORAGE_KEY) || "{}");
+    } catch (e) {
+      return {};
+    }
+  }
+
+  private setRegion(region: Region) {
+    const next = normalizeRegion(region);
+    const regions = { ...this.regions };
+    if (isFullRegion(next)) delete regions[this.currentSource];
+    else regions[this.currentSource] = next;
+    this.regions = regions;
+    localStorage.setItem(REGION_STORAGE_KEY, JSON.stringify(regions));
+    // Fingerprints and sampled frames of the old crop no longer compare.
+    this.sceneDetector.clearReference();
+    this.frameHistory.clear();
+    this.motionAnalyzer.reset();
+    this.addLog(isFullRegion(next) ? `Region of interest cleared for ${this.currentSource}` : `Region of interest for ${this.currentSource}: ${[next.x, next.y, next.width, next.height].map(v => v.toFixed(2)).join(", ")}`, 'info');
+  }
+
+  /** Maps a pointer event to normalized source coordinates, accounting for cover scaling and mirroring. */
+  private toSourcePoint(e: PointerEvent) {
+    const frame = (e.currentTarget as HTMLElement).querySelector(".roi-frame")!.getBoundingClientRect();
+    let x = (e.clientX - frame.left) / frame.width;
+    const y = (e.clientY - frame.top) / frame.height;
+    if (this.isRegionMirrored) x = 1 - x;
+    return { x: Math.max(0, Math.min(1, x)), y: Math.max(0, Math.min(1, y)) };
+  }
+
+  private get isRegionMirrored() {
+    return !this.showsImage && this.isVideoFlipped;
+  }
+
+  private handleRoiPointerDown(e: PointerEvent) {
+    const point = this.toSourcePoint(e);
+    const origin = this.activeRegion;
+    const handle = (e.target as HTMLElement).classList.contains("roi-handle");
+    const inside = !isFullRegion(origin) && point.x >= origin.x && point.x <= origin.x + origin.width && point.y >= origin.y && point.y <= origin.y + origin.height;
+    this.roiDrag = { mode: handle ? "resize" : inside ? "move" : "draw", start: point, origin };
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+  }
+
+  private handleRoiPointerMove(e: PointerEvent) {
+    if (!this.roiDrag) return;
+    const { mode, start, origin } = this.roiDrag;
+    const point = this.toSourcePoint(e);
+    const dx = point.x - start.x, dy = point.y - start.y;
+    if (mode === "move") this.roiDraft = normalizeRegion({ ...origin, x: origin.x + dx, y: origin.y + dy });
+    else if (mode === "resize") this.roiDraft = normalizeRegion({ ...origin, width: origin.width + dx, height: origin.height + dy });
+    else this.roiDraft = normalizeRegion({ x: start.x, y: start.y, width: dx, height: dy });
+  }
+
+  private handleRoiPointerUp() {
+    if (this.roiDraft) this.setRegion(this.roiDraft);
+    this.roiDrag = null;
+    this.roiDraft = null;
+  }
+
+  /** The element currently showing the source, with its intrinsic size, once it has a frame. */
+  private get showsImage() {
+    return this.currentSource === "image" || this.currentSource === "slideshow";
+  }
+
+  private getStreamElement() {
+    const el = this.showsImage ? this.uploadedImageElement : this.videoElement;
     if (!el) return null;
-    let w = el instanceof HTMLImageElement ? el.naturalWidth : (el as HTMLVideoElement).videoWidth;
-    let h = el instanceof HTMLImageElement ? el.naturalHeight : (el as HTMLVideoElement).videoHeight;
-    if (w === 0 || h === 0) return null;
-    return this.drawToCanvas(el, w, h);
+    const width = el instanceof HTMLImageElement ? el.naturalWidth : (el as HTMLVideoElement).videoWidth;
+    const height = el instanceof HTMLImageElement ? el.naturalHeight : (el as HTMLVideoElement).videoHeight;
+    if (width === 0 || height === 0) return null;
+    return { element: el as HTMLImageElement | HTMLVideoElement, width, height };
   }
 
   private drawToCanvas(element: any, width: number, height: number) {
@@ -529,17 +1888,6 @@ export class LyriaCamera extends LitElement {
     return this.canvasElement.toDataURL(IMAGE_MIME_TYPE);
   }
 
-  private getGenerateContentParams(data: string) {
-    return {
-      model: GEMINI_MODEL,
-      contents: { parts: [{ inlineData: { mimeType: IMAGE_MIME_TYPE, data } }, { text: window.systemPrompt }] },
-      config: { 
-        responseMimeType: "application/json", 
-        responseSchema: { type: Type.OBJECT, properties: { prompts: { type: Type.ARRAY, items: { type: Type.STRING } } } } 
-      },
-    };
-  }
-
   private updatePromptWeight(index: number, weight: number) {
     this.prompts[index].weight = weight;
     this.prompts = [...this.prompts];
@@ -547,13 +1895,16 @@ export class LyriaCamera extends LitElement {
   }
 
   private sendWeightedPrompts(weighted: Prompt[]) {
-    this.liveMusicHelper.setWeightedPrompts(weighted);
+    this.unmodulatedPrompts = weighted;
+    const features = this.motionIntervalId ? this.motionAnalyzer.features : null;
+    this.liveMusicHelper.setWeightedPrompts(features ? modulatePromptWeights(this.motionSettings, features, weighted) : weighted);
     this.promptsStale = true;
   }
 
-  private startCrossfade(texts: string[]) {
+  private startCrossfade(targets: Prompt[]) {
     this.stopCrossfade();
-    const target = texts.map(text => ({ text, weight: 0 }));
+    const target = targets.map(p => ({ ...p }));
+    this.crossfadeTarget = target;
     const from = this.currentWeightedPrompts.length > 0 ? [...this.currentWeightedPrompts] : target.map(t => ({...t, weight: 0}));
     const start = performance.now();
     const duration = this.intervalPreset.crossfadeSeconds * 1000;
@@ -561,12 +1912,12 @@ export class LyriaCamera extends LitElement {
     const update = () => {
       const now = performance.now();
       const t = duration > 0 ? Math.min(1, (now - start) / duration) : 1;
-      const blended = [...from.map(p => ({...p, weight: p.weight * (1-t)})), ...target.map(p => ({...p, weight: t}))];
+      const blended = [...from.map(p => ({...p, weight: p.weight * (1-t)})), ...target.map(p => ({...p, weight: p.weight * t}))];
       this.currentWeightedPrompts = blended;
       this.sendWeightedPrompts(blended);
       if (t >= 1) { 
         this.stopCrossfade(); 
-        this.prompts = target.map(p => ({...p, weight: 1.0})); 
+        this.prompts = target; 
         this.currentWeightedPrompts = this.prompts; 
       }
     };
@@ -574,7 +1925,37 @@ export class LyriaCamera extends LitElement {
     else update();
   }
 
-  private stopCrossfade() { if (this.crossfadeIntervalId) clearInterval(this.crossfadeIntervalId); }
+  /** Crossfades back to an earlier analysis; nothing is re-analyzed. */
+  private revertToTimelineEntry(entry: TimelineEntry) {
+    if (this.promptsLoading || entry.id === this.activeTimelineId) return;
+    this.activeTimelineId = entry.id;
+    this.lastCapturedImage = entry.thumbnail;
+    this.applySceneAnalysis(entry.analysis);
+    const prompts = entry.prompts.map(p => ({ ...p }));
+    if (this.appState === "idle") {
+      this.prompts = prompts;
+      this.currentWeightedPrompts = prompts;
+      this.unmodulatedPrompts = prompts;
+    } else {
+      this.startCrossfade(prompts);
+    }
+    this.addLog(`Reverted to the vibe from ${new Date(entry.timestamp).toLocaleTimeString()}`, 'info');
+  }
+
+  private exportTimeline() {
+    const url = URL.createObjectURL(new Blob([exportTimeline(this.timeline)], { type: "application/json" }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `sonar_timeline_${new Date().toISOString().slice(0, 19).replace(/[:T]/g, "-")}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  private stopCrossfade() {
+    if (this.crossfadeIntervalId) clearInterval(this.crossfadeIntervalId);
+    this.crossfadeIntervalId = null;
+    this.crossfadeTarget = null;
+  }
 
   private deletePrompt(i: number) {
     this.prompts.splice(i, 1);
@@ -582,6 +1963,43 @@ export class LyriaCamera extends LitElement {
     this.sendWeightedPrompts(this.prompts);
   }
 
+  private handleFilteredPrompt(filtered: LiveMusicFilteredPrompt) {
+    if (!filtered.text) return;
+    const reason = filtered.filteredReason || "No reason given";
+    this.filteredPrompts = new Map(this.filteredPrompts).set(filtered.text, reason);
+    this.addLog(`Prompt filtered: "${filtered.text}" (${reason})`, 'warn');
+  }
+
+  /** Asks the vision provider for a compliant alternative and swaps it in with the same weight. */
+  private async rephrasePrompt(text: string) {
+    if (this.rephrasingPrompt) return;
+    this.rephrasingPrompt = text;
+    try {
+      if (this.visionProvider.kind !== "mock") await this.scheduler.acquire("manual");
+      const replacement = await this.visionProvider.rephrase(text, this.filteredPrompts.get(text) ?? "");
+      this.scheduler.reportSuccess();
+      const filtered = new Map(this.filteredPrompts);
+      filtered.delete(text);
+      this.filteredPrompts = filtered;
+      // Land a running crossfade now; its last step would otherwise restore the filtered text.
+      if (this.crossfadeTarget) {
+        this.prompts = this.crossfadeTarget;
+        this.stopCrossfade();
+      }
+      this.prompts = this.prompts.map(p => (p.text === text ? { ...p, text: replacement } : p));
+      this.currentWeightedPrompts = this.prompts;
+      this.sendWeightedPrompts(this.prompts);
+      this.addLog(`Rephrased "${text}" as "${replacement}"`, 'info');
+    } catch (e: any) {
+      if (e instanceof RequestCancelledError) return;
+      if (isRateLimit(e)) this.scheduler.reportRateLimit(e instanceof RateLimitError ? e.retryAfterMs : null);
+      this.addLog(`Rephrase failed: ${e.message || e}`, 'error');
+      this.toastMessageElement.show("Couldn't rephrase that vibe. Try editing it instead.", 4000);
+    } finally {
+      this.rephrasingPrompt = null;
+    }
+  }
+
   private addPrompt() {
     if (!this.newPromptText.trim()) return;
     this.prompts = [...this.prompts, { text: this.newPromptText.trim(), weight: 1.0 }];
@@ -593,37 +2011,113 @@ export class LyriaCamera extends LitElement {
     this.playbackState = e.detail;
     if (this.playbackState === "playing") { 
       this.hasAudioChunks = true; 
+      this.connectionFailed = false;
+      if (this.appState === "pendingStart") this.appState = "playing";
       this.startTimer(); 
       this.startVisualizer(); 
+      this.startMotionLoop();
+      if (this.pauseWhenPlaying && this.appState === "playing") this.requestPause();
     } else {
       this.stopTimer();
       this.stopVisualizer();
+      this.stopMotionLoop();
     }
   }
 
   private async handlePlayPause() {
     if (this.appState === "idle") { 
       this.appState = "pendingStart"; 
-      await this.captureAndGenerate(); 
-    } else { await this.requestStop(); }
+      const slide = this.currentSource === "slideshow" ? this.slides[this.slideIndex] : null;
+      if (slide?.analysis) {
+        await this.applyAnalysis(slide.analysis, slide.analyzer ?? "heuristic");
+        this.startTimer();
+      } else {
+        await this.captureAndGenerate("manual"); 
+      }
+    } else if (this.appState === "playing") { this.requestPause(); }
+    else if (this.appState === "paused") { await this.requestResume(); }
+    else { await this.requestStop(); }
+  }
+
+  private requestPause() {
+    // While the music is still loading there is no session to pause yet; hold the
+    // pause until it plays rather than let a paused clip drift from the music.
+    if (!this.liveMusicHelper.pause()) {
+      if (!this.pauseWhenPlaying) this.addLog("Pause held until the music finishes loading", 'info');
+      this.pauseWhenPlaying = true;
+      return;
+    }
+    this.pauseWhenPlaying = false;
+    if (this.currentSource === "video") this.videoElement.pause();
+    this.appState = "paused";
+    this.addLog("Playback paused", 'info');
+  }
+
+  /** Picks up where the paused session left off; the prompts are not re-analyzed. */
+  private async requestResume() {
+    this.appState = "playing";
+    this.addLog("Playback resumed", 'info');
+    if (this.currentSource === "video") void this.videoElement.play();
+    try {
+      await this.liveMusicHelper.resume();
+    } catch (e: any) {
+      this.addLog(`Resume failed: ${e.message || e}`, 'error');
+    }
   }
 
   private async requestStop() {
+    this.pauseWhenPlaying = false;
     this.stopTimer(); 
+    if (this.currentSource === "video") this.videoElement.pause();
+    this.activeCueId = null;
     this.stopVisualizer(); 
     this.liveMusicHelper.stop();
+    this.scheduler.cancel("timed");
+    this.scheduler.cancel("manual");
+    this.filteredPrompts = new Map();
+    this.tempo = null;
+    this.sceneAnalysis = null;
     this.appState = "idle"; 
     this.hasAudioChunks = false; 
-    this.isCapturingVibe = false;
+    this.connectionFailed = false;
+    this.stopRecording();
+  }
+
+  private async handleReconnect() {
+    this.connectionFailed = false;
+    this.addLog("Manual reconnect requested", 'info');
+    try {
+      await this.liveMusicHelper.reconnect();
+    } catch (e: any) {
+      this.addLog(`Reconnect failed: ${e.message || e}`, 'error');
+    }
   }
 
   private stopRecording() {
-    if (this.mediaRecorder?.state === 'recording') this.mediaRecorder.stop();
+    if (this.pcmRecorder) void this.finishVibeCapture();
+  }
+
+  private handleBeat(beat: Beat) {
+    this.beatPulse = 0.6 + 0.4 * beat.confidence;
+    // Only re-render when the reading visibly changes, not on every beat.
+    if (!this.tempo || Math.abs(this.tempo.bpm - beat.bpm) >= 0.5 || Math.abs(this.tempo.confidence - beat.confidence) >= 0.05) {
+      this.tempo = { bpm: beat.bpm, confidence: beat.confidence };
+    }
+  }
+
+  /** Decays the beat and onset envelopes by the time since the last frame and mixes them. */
+  private takeBassImpact(now: number) {
+    const decay = Math.exp(-(now - (this.lastPulseFrame || now)) / 180);
+    this.lastPulseFrame = now;
+    this.beatPulse *= decay;
+    this.onsetPulse *= decay;
+    return Math.min(1, this.beatPulse * 0.8 + this.onsetPulse * 0.5);
   }
 
   private startVisualizer() {
     this.stopVisualizer();
     this.liveMusicHelper.analyser.fftSize = 1024;
+    this.lastPulseFrame = 0;
     const draw = () => {
       if (!this.visualizerCanvas || !this.liveMusicHelper.analyser) return;
       const cvs = this.visualizerCanvas, ctx = cvs.getContext("2d")!;
@@ -631,10 +2125,9 @@ export class LyriaCamera extends LitElement {
       const data = new Uint8Array(this.liveMusicHelper.analyser.frequencyBinCount);
       this.liveMusicHelper.analyser.getByteFrequencyData(data);
       ctx.clearRect(0, 0, cvs.width, cvs.height);
-      const time = performance.now() * 0.00015;
-      const lowRange = data.slice(0, 10);
-      const avgLow = lowRange.reduce((a, b) => a + b, 0) / lowRange.length;
-      const bassImpact = avgLow / 255;
+      const now = performance.now();
+      const time = now * 0.00015;
+      const bassImpact = this.takeBassImpact(now);
       this.drawAurora(ctx, cvs, time, data, "rgba(255, 255, 255, 0.45)", 180, bassImpact);
       this.drawAurora(ctx, cvs, time * 1.5, data, "rgba(180, 180, 180, 0.3)", 120, bassImpact * 1.6);
       this.drawAurora(ctx, cvs, time * 0.8, data, "rgba(80, 80, 80, 0.2)", 220, bassImpact * 0.7);
@@ -678,7 +2171,7 @@ export class LyriaCamera extends LitElement {
     osc.start(); osc.stop(this.uiAudioCtx.currentTime + 0.15);
   }
 
-  private resetSession() { this.requestStop(); this.stopCurrentStream(); this.page = "splash"; this.currentSource = "none"; }
+  private resetSession() { this.requestStop(); this.stopCurrentStream(); this.page = "splash"; this.currentSource = "none"; this.fadingSlideSrc = null; this.cameraDisconnected = false; this.timeline = []; this.activeTimelineId = null; this.frameHistory.clear(); this.roiEditing = false; }
 
   private closeSettings() {
     this.settingsClosing = true;
@@ -688,11 +2181,18 @@ export class LyriaCamera extends LitElement {
   private showTooltip(text: string) { this.activeTooltip = text; }
   private hideTooltip() { this.activeTooltip = null; }
 
+  private get isActive() {
+    return this.appState === "playing" || this.appState === "pendingStart";
+  }
+
   private getStatusText(t: any) {
+    if (this.connectionFailed) return t.connectionLost;
+    if (this.cameraDisconnected && this.currentSource === "camera") return t.waitingForCamera;
     if (this.isCoolingDown) return "AI COOLING DOWN...";
     if (this.appState === "idle") return t.ready;
     if (this.appState === "pendingStart") return t.synthesizing;
     if (this.appState === "playing") return t.flowing;
+    if (this.appState === "paused") return t.paused;
     return "";
   }
 
@@ -700,10 +2200,12 @@ export class LyriaCamera extends LitElement {
     const t = getT(this.language);
     return html`
       <div id="video-container" aria-hidden="true" class=${classMap({ analyzing: this.promptsLoading, cooling: this.isCoolingDown })}>
-        ${this.currentSource === "image" ? html`<img id="uploaded-image-el" alt="Uploaded source" src=${this.uploadedImageSrc!} />` : html`<video playsinline muted style=${styleMap({transform: this.isVideoFlipped ? "scaleX(-1)" : "none"})}></video>`}
+        ${this.showsImage ? html`<img id="uploaded-image-el" alt="Uploaded source" src=${this.uploadedImageSrc!} @load=${this.handleImageLoad} />` : html`<video playsinline muted style=${styleMap({transform: this.isVideoFlipped ? "scaleX(-1)" : "none"})}></video>`}
+        ${this.showsImage && this.fadingSlideSrc ? html`<img class="slide-fade-out" alt="" src=${this.fadingSlideSrc} style=${styleMap({ animationDuration: `${SLIDE_FADE_SECONDS}s` })} @animationend=${() => this.fadingSlideSrc = null} />` : nothing}
         ${this.promptsLoading ? html`<div class="analysis-overlay"><div class="scanline"></div><div class="analysis-status">${t.synthesizing}</div></div>` : nothing}
         ${this.isCoolingDown ? html`<div class="analysis-overlay cooldown"><div class="analysis-status" style="background: #ff453a; color: white; border: 2px solid white;">AI OVERLOAD - COOLING DOWN</div></div>` : nothing}
       </div>
+      ${this.page === "main" ? this.renderRegionOverlay(t) : nothing}
       <canvas id="visualizer" aria-hidden="true"></canvas>
       <div id="ui-layer" role="main">
         ${this.renderPage(t)}
@@ -711,7 +2213,10 @@ export class LyriaCamera extends LitElement {
         ${this.showDebugConsole ? this.renderDebugConsole() : nothing}
       </div>
       <toast-message aria-live="polite"></toast-message>
-      <input type="file" id="file-input" hidden @change=${this.handleFileChange} accept="image/*" aria-hidden="true" />
+      <input type="file" id="file-input" hidden multiple @change=${this.handleFileChange} accept="image/*" aria-hidden="true" />
+      <input type="file" id="slides-input" hidden multiple @change=${this.handleSlidesInput} accept="image/*" aria-hidden="true" />
+      <input type="file" id="video-input" hidden @change=${this.handleVideoFileChange} accept="video/*" aria-hidden="true" />
+      <input type="file" id="template-input" hidden @change=${this.handleTemplateImport} accept="application/json,.json" aria-hidden="true" />
       ${this.activeTooltip ? html`<div class="tooltip-bubble ${this.tooltipSide}" style=${styleMap({ left: `${this.tooltipX}px`, top: `${this.tooltipY}px` })}>${this.activeTooltip}</div>` : nothing}
       
       <!-- Persistent Debug Toggle Button -->
@@ -733,10 +2238,15 @@ export class LyriaCamera extends LitElement {
         </div>
         <div class="debug-body">
           <div class="debug-state">
-            Model: <strong>${GEMINI_MODEL}</strong> |
-            Backoff: <strong>${this.analysisBackoffFactor}</strong> |
+            Vision: <strong>${this.visionProvider.label}</strong> |
+            Music: <strong>${this.liveMusicHelper.backendName}</strong> |
+            Quota: <strong>${this.renderQuotaSummary()}</strong> |
+            Analyzer: <strong>${this.lastAnalyzer ?? "--"}</strong> |
+            Frames: <strong>${Math.min(this.frameHistory.size + 1, this.temporalContext.frames)}/${this.temporalContext.frames}${this.temporalContext.contactSheet ? " sheet" : ""}</strong> |
             State: <strong>${this.appState}</strong>
           </div>
+          ${this.renderBufferHealth()}
+          ${this.renderOutputAnalysis()}
           ${this.debugLogs.map(log => html`
             <div class="debug-log-line ${log.type}">
               <span class="log-ts">[${log.timestamp}]</span>
@@ -748,15 +2258,144 @@ export class LyriaCamera extends LitElement {
     `;
   }
 
+  private renderBufferHealth() {
+    const h = this.bufferHistory[this.bufferHistory.length - 1];
+    return html`
+      <div class="debug-buffer">
+        <div class="debug-buffer-stats">
+          Buffer: <strong>${h ? h.depth.toFixed(2) : "0.00"}s</strong> / ${this.targetLatency}s |
+          Underruns: <strong>${h?.underruns ?? 0}</strong> |
+          Late: <strong>${h?.lateChunks ?? 0}</strong> |
+          Chunks: <strong>${h?.chunks ?? 0}</strong>
+        </div>
+        <canvas id="buffer-chart" aria-label="Buffer depth on chunk arrival"></canvas>
+        <label class="debug-buffer-target">
+          Target latency
+          <input type="range" class="weight-slider" min="0.25" max="4" step="0.25" .value=${this.targetLatency.toString()}
+            @input=${(e: any) => this.updateTargetLatency(+e.target.value)} />
+        </label>
+      </div>
+    `;
+  }
+
+  private updateTargetLatency(seconds: number) {
+    this.targetLatency = seconds;
+    this.liveMusicHelper.setTargetLatency(seconds);
+  }
+
+  private renderOutputAnalysis() {
+    const l = this.loudness;
+    return html`
+      <div class="debug-buffer">
+        <div class="debug-buffer-stats">
+          M: <strong>${this.formatLoudness(l?.momentary)}</strong> |
+          S: <strong>${this.formatLoudness(l?.shortTerm)}</strong> |
+          I: <strong>${this.formatLoudness(l?.integrated)} LUFS</strong> |
+          TP: <strong>${this.formatLoudness(l?.truePeak)} dBTP</strong> |
+          AGC: <strong>${(l?.autoGain ?? 0).toFixed(1)} dB</strong>
+        </div>
+        <div class="debug-buffer-stats">
+          Tempo: <strong>${this.tempo ? `${this.tempo.bpm.toFixed(1)} BPM` : "--"}</strong> |
+          Confidence: <strong>${this.tempo ? this.tempo.confidence.toFixed(2) : "--"}</strong>
+        </div>
+        ${this.intervalPreset.sceneChange ? html`<div class="debug-buffer-stats">
+          Scene Δ: <strong>${this.sceneDifference.toFixed(2)}</strong> / ${this.intervalPreset.sceneChange.threshold.toFixed(2)} |
+          Max wait: <strong>${this.captureCountdown}s</strong>
+        </div>` : nothing}
+        ${this.motionFeatures ? html`<div class="debug-buffer-stats">
+          Motion: <strong>${this.motionFeatures.motion.toFixed(2)}</strong> |
+          Light: <strong>${this.motionFeatures.brightness.toFixed(2)}</strong> |
+          Color Δ: <strong>${this.motionFeatures.colorChange.toFixed(2)}</strong>
+        </div>` : nothing}
+      </div>
+    `;
+  }
+
+  private renderSceneAnalysis(t: any, scene: SceneAnalysis) {
+    const key = scaleLabel(scene.scale);
+    return html`
+      <div class="scene-card" role="note" aria-label="${t.sceneAnalysis}">
+        <p class="scene-description">${scene.description}</p>
+        <div class="scene-stats">
+          <span class="scene-chip">${scene.mood}</span>
+          <span class="scene-chip">${scene.bpmRange.min === scene.bpmRange.max ? scene.bpmRange.min : `${scene.bpmRange.min}–${scene.bpmRange.max}`} BPM</span>
+          ${key ? html`<span class="scene-chip">${key}</span>` : nothing}
+        </div>
+        <div class="scene-energy" title="${t.energy} ${scene.energy.toFixed(2)}">
+          <span>${t.energy}</span>
+          <div class="scene-energy-track"><div class="scene-energy-fill" style=${styleMap({ width: `${scene.energy * 100}%` })}></div></div>
+        </div>
+        ${scene.instruments.length > 0 ? html`<div class="scene-instruments">${t.instruments}: ${scene.instruments.join(", ")}</div>` : nothing}
+      </div>
+    `;
+  }
+
+  private renderTimeline(t: any) {
+    return html`
+      <div class="timeline" role="group" aria-label="${t.timeline}">
+        <div class="timeline-header">
+          <span>${t.timeline} (${this.timeline.length})</span>
+          <button class="fav-action-btn material-icons-round" style="font-size:16px;" @click=${this.exportTimeline} @mouseenter=${() => this.showTooltip(t.exportTimelineTooltip)} @mouseleave=${this.hideTooltip} aria-label="${t.exportTimelineTooltip}">download</button>
+        </div>
+        <div class="timeline-strip">
+          ${this.timeline.map(entry => html`
+            <button class="timeline-entry ${entry.id === this.activeTimelineId ? 'active' : ''}" ?disabled=${this.promptsLoading}
+              @click=${() => this.revertToTimelineEntry(entry)}
+              @mouseenter=${() => this.showTooltip(`${new Date(entry.timestamp).toLocaleTimeString()} • ${entry.prompts.map(p => p.text).join(" / ")}`)} @mouseleave=${this.hideTooltip}
+              aria-label="${t.revertTo} ${new Date(entry.timestamp).toLocaleTimeString()}">
+              <img src=${entry.thumbnail} alt="" />
+              <span class="timeline-time">${new Date(entry.timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}</span>
+            </button>
+          `)}
+        </div>
+      </div>
+    `;
+  }
+
+  /**
+   * Outlines the region of interest over the live view; while editing, the
+   * overlay takes pointer input to draw, move or resize it.
+   */
+  private renderRegionOverlay(t: any) {
+    const frame = this.getStreamElement();
+    const region = this.roiDraft ?? this.activeRegion;
+    if (!frame || (!this.roiEditing && isFullRegion(region))) return nothing;
+    const layout = coverLayout(window.innerWidth, window.innerHeight, frame.width, frame.height);
+    const pct = (v: number) => `${v * 100}%`;
+    return html`
+      <div class="roi-overlay ${this.roiEditing ? 'editing' : ''}"
+        @pointerdown=${this.roiEditing ? this.handleRoiPointerDown : nothing}
+        @pointermove=${this.roiEditing ? this.handleRoiPointerMove : nothing}
+        @pointerup=${this.roiEditing ? this.handleRoiPointerUp : nothing}
+        @pointercancel=${this.roiEditing ? this.handleRoiPointerUp : nothing}>
+        <div class="roi-frame" style=${styleMap({ left: `${layout.left}px`, top: `${layout.top}px`, width: `${layout.width}px`, height: `${layout.height}px`, transform: this.isRegionMirrored ? "scaleX(-1)" : "none" })}>
+          ${isFullRegion(region) ? nothing : html`
+            <div class="roi-rect" style=${styleMap({ left: pct(region.x), top: pct(region.y), width: pct(region.width), height: pct(region.height) })}>
+              ${this.roiEditing ? html`<div class="roi-handle"></div>` : nothing}
+            </div>
+          `}
+        </div>
+        ${this.roiEditing ? html`
+          <div class="roi-toolbar glass" @pointerdown=${(e: Event) => e.stopPropagation()}>
+            <span>${t.roiHint}</span>
+            <button class="lang-btn" @click=${() => this.setRegion(FULL_REGION)}>${t.roiReset}</button>
+            <button class="lang-btn active" @click=${() => this.roiEditing = false}>${t.roiDone}</button>
+          </div>
+        ` : nothing}
+      </div>
+    `;
+  }
+
   private renderPage(t: any) {
     if (this.page === "splash") return this.renderSplash(t);
     if (this.page === "preview") return this.renderPreview(t);
+    if (this.page === "slideshow") return this.renderSlideshowEditor(t);
     return this.renderMain(t);
   }
 
   private renderSplash(t: any) {
     return html`
-      <div class="splash-page">
+      <div class="splash-page" @dragover=${this.handleDragOver} @drop=${this.handleSplashDrop}>
         <div class="splash-background" aria-hidden="true"></div>
         <h1 class="logo-title">${t.logo}<span class="thin" aria-hidden="true">.</span></h1>
         <p class="subtitle">${t.subtitle}</p>
@@ -770,6 +2409,12 @@ export class LyriaCamera extends LitElement {
           <button class="source-card" @click=${this.triggerImageUpload} @mouseenter=${() => this.showTooltip(t.image)} @mouseleave=${this.hideTooltip} aria-label="${t.image}">
             <span class="material-icons-round card-icon" aria-hidden="true">image</span><span class="card-label">${t.image}</span>
           </button>
+          <button class="source-card" @click=${this.openSlideshowEditor} @mouseenter=${() => this.showTooltip(t.slideshow)} @mouseleave=${this.hideTooltip} aria-label="${t.slideshow}">
+            <span class="material-icons-round card-icon" aria-hidden="true">collections</span><span class="card-label">${t.slideshow}</span>
+          </button>
+          <button class="source-card" @click=${this.triggerVideoUpload} @mouseenter=${() => this.showTooltip(t.video)} @mouseleave=${this.hideTooltip} aria-label="${t.video}">
+            <span class="material-icons-round card-icon" aria-hidden="true">movie</span><span class="card-label">${t.video}</span>
+          </button>
         </div>
       </div>
     `;
@@ -794,7 +2439,9 @@ export class LyriaCamera extends LitElement {
     return html`
       <div class="top-bar">
         <button class="icon-button" @click=${this.resetSession} @mouseenter=${() => this.showTooltip(t.backTooltip)} @mouseleave=${this.hideTooltip} aria-label="${t.backTooltip}"><span class="material-icons-round" aria-hidden="true">arrow_back</span></button>
-        ${this.currentSource === "camera" && this.hasMultipleCameras ? html`<button class="icon-button" @click=${this.switchCamera} @mouseenter=${() => this.showTooltip(t.switchCameraTooltip)} @mouseleave=${this.hideTooltip} aria-label="${t.switchCameraTooltip}"><span class="material-icons-round" aria-hidden="true">flip_camera_android</span></button>` : nothing}
+        <button class="icon-button ${this.roiEditing || !isFullRegion(this.activeRegion) ? 'active' : ''}" @click=${() => this.roiEditing = !this.roiEditing} @mouseenter=${() => this.showTooltip(t.roiTooltip)} @mouseleave=${this.hideTooltip} aria-label="${t.roiTooltip}" aria-pressed=${this.roiEditing}><span class="material-icons-round" aria-hidden="true">crop_free</span></button>
+        ${this.currentSource === "slideshow" ? html`<button class="icon-button" @click=${this.editSlideshow} @mouseenter=${() => this.showTooltip(t.editSlideshow)} @mouseleave=${this.hideTooltip} aria-label="${t.editSlideshow}"><span class="material-icons-round" aria-hidden="true">view_carousel</span></button>` : nothing}
+        ${this.currentSource === "camera" && this.cameras.length > 1 ? html`<button class="icon-button" @click=${this.switchCamera} @mouseenter=${() => this.showTooltip(t.switchCameraTooltip)} @mouseleave=${this.hideTooltip} aria-label="${t.switchCameraTooltip}"><span class="material-icons-round" aria-hidden="true">flip_camera_android</span></button>` : nothing}
         <div style="flex:1"></div>
         <button class="icon-button" @click=${() => this.settingsOpen = true} @mouseenter=${() => this.showTooltip(t.settingsTooltip)} @mouseleave=${this.hideTooltip} aria-label="${t.settingsTooltip}"><span class="material-icons-round" aria-hidden="true">tune</span></button>
       </div>
@@ -804,12 +2451,25 @@ export class LyriaCamera extends LitElement {
            <div style="width: 36px"></div> 
            <button class="icon-button mini" @click=${() => this.randomizeWeights()} @mouseenter=${() => this.showTooltip("Randomize vibe weights")} @mouseleave=${this.hideTooltip} aria-label="Randomize weights"><span class="material-icons-round" style="font-size:18px;" aria-hidden="true">shuffle</span></button>
         </div>
-        ${this.prompts.map((p, i) => html`
-          <div class="prompt-tag" role="listitem">
+        ${this.sceneAnalysis ? this.renderSceneAnalysis(t, this.sceneAnalysis) : nothing}
+        ${this.timeline.length > 0 ? this.renderTimeline(t) : nothing}
+        ${this.prompts.map((p, i) => {
+          const filteredReason = this.filteredPrompts.get(p.text);
+          return html`
+          <div class="prompt-tag ${filteredReason !== undefined ? 'filtered' : ''}" role="listitem">
             <div class="prompt-header"><span class="prompt-text">${p.text}</span><button class="material-icons-round delete-btn" style="font-size:18px;" @click=${() => this.deletePrompt(i)} @mouseenter=${() => this.showTooltip(t.deletePromptTooltip)} @mouseleave=${this.hideTooltip}>close</button></div>
-            <div class="weight-slider-container"><input type="range" class="weight-slider" min="0" max="1" step="0.01" .value=${p.weight.toString()} @input=${(e:any) => this.updatePromptWeight(i, +e.target.value)} /></div>
+            ${filteredReason !== undefined ? html`
+              <div class="filtered-notice">
+                <span class="material-icons-round" style="font-size:14px;" aria-hidden="true">block</span>
+                <span class="filtered-reason">${t.filtered}: ${filteredReason}</span>
+                <button class="rephrase-btn" ?disabled=${this.rephrasingPrompt !== null} @click=${() => this.rephrasePrompt(p.text)} @mouseenter=${() => this.showTooltip(t.rephraseTooltip)} @mouseleave=${this.hideTooltip}>
+                  <span class="material-icons-round" style="font-size:14px;" aria-hidden="true">${this.rephrasingPrompt === p.text ? 'hourglass_top' : 'auto_fix_high'}</span>${t.rephrase}
+                </button>
+              </div>
+            ` : html`<div class="weight-slider-container"><input type="range" class="weight-slider" min="0" max="1" step="0.01" .value=${p.weight.toString()} @input=${(e:any) => this.updatePromptWeight(i, +e.target.value)} /></div>`}
           </div>
-        `)}
+        `;
+        })}
         <div class="add-prompt-box">
           <input class="add-input glass" placeholder="${t.addVibe}" .value=${this.newPromptText} @input=${(e:any)=>this.newPromptText=e.target.value} @keydown=${(e:any)=>e.key==='Enter' && this.addPrompt()} /><button class="icon-button" @click=${this.addPrompt} @mouseenter=${() => this.showTooltip(t.addPromptTooltip)} @mouseleave=${this.hideTooltip}><span class="material-icons-round" aria-hidden="true">add</span></button>
         </div>
@@ -818,16 +2478,25 @@ export class LyriaCamera extends LitElement {
       <div id="pip-container" class=${classMap({visible: !!this.lastCapturedImage})}><img src=${this.lastCapturedImage!} alt="Last analyzed frame" /></div>
 
       <div id="controls-container">
-        ${this.isCapturingVibe ? html`<div class="progress-container mini"><div class="progress-bar-fill" style="width: ${this.captureProgress}%"></div></div>` : nothing}
-        <div class="status-pill" role="status" aria-live="polite" style=${styleMap({color: this.isCoolingDown ? '#ff453a' : 'inherit', border: this.isCoolingDown ? '1px solid #ff453a' : 'none'})}>${this.getStatusText(t)}</div>
+        ${this.isCapturingVibe && this.captureDuration > 0 ? html`<div class="progress-container mini"><div class="progress-bar-fill" style="width: ${this.captureProgress}%"></div></div>` : nothing}
+        ${this.isCapturingVibe ? html`<div class="capture-clock" role="timer"><span class="rec-dot" aria-hidden="true"></span>${this.formatClock(this.captureElapsed)}${this.captureDuration > 0 ? html`<span class="capture-remaining">-${this.formatClock(this.captureDuration - this.captureElapsed)}</span>` : nothing}</div>` : nothing}
+        ${this.currentSource === "video" ? this.renderClipBar(t) : nothing}
+        ${this.currentSource === "slideshow" ? this.renderSlideBar(t) : nothing}
+        <div class="status-row">
+          <div class="status-pill" role="status" aria-live="polite" style=${styleMap({color: this.isCoolingDown || this.connectionFailed ? '#ff453a' : 'inherit', border: this.isCoolingDown || this.connectionFailed ? '1px solid #ff453a' : 'none'})}>${this.getStatusText(t)}${this.lastAnalyzer && this.appState !== 'idle' ? html`<span class="analyzer-badge">${this.lastAnalyzer === 'heuristic' ? t.analyzerLocal : t[this.lastAnalyzer]}</span>` : nothing}${this.renderQuotaBadge(t)}</div>
+          ${this.connectionFailed ? html`<button class="reconnect-btn" @click=${this.handleReconnect} @mouseenter=${() => this.showTooltip(t.reconnectTooltip)} @mouseleave=${this.hideTooltip}><span class="material-icons-round" style="font-size:14px;" aria-hidden="true">refresh</span>${t.reconnect}</button>` : nothing}
+        </div>
         <div class="main-playback">
-          <button class="icon-button" @click=${this.startVibeCapture} @mouseenter=${() => this.showTooltip("Capture 5min Vibe")} @mouseleave=${this.hideTooltip} aria-label="Capture vibe" style=${styleMap({background: this.isCapturingVibe ? 'white' : ''})}>
+          <button class="icon-button" @click=${this.toggleVibeCapture} @mouseenter=${() => this.showTooltip(this.isCapturingVibe ? t.stopRecordTooltip : t.recordTooltip)} @mouseleave=${this.hideTooltip} aria-label=${this.isCapturingVibe ? t.stopRecordTooltip : t.recordTooltip} style=${styleMap({background: this.isCapturingVibe ? 'white' : ''})}>
             <span class="material-icons-round" style=${styleMap({color: this.isCapturingVibe ? 'black' : 'white'})} aria-hidden="true">${this.isCapturingVibe ? 'graphic_eq' : 'bookmark_add'}</span>
           </button>
-          <button class="play-btn ${this.appState !== 'idle' ? 'playing' : ''}" @click=${this.handlePlayPause} @mouseenter=${() => this.showTooltip(this.appState !== 'idle' ? t.pauseTooltip : t.playTooltip)} @mouseleave=${this.hideTooltip}>
-            <span class="material-icons-round" style="font-size: 36px;" aria-hidden="true">${this.appState !== 'idle' ? 'pause' : 'play_arrow'}</span>
+          <button class="play-btn ${this.isActive ? 'playing' : ''}" @click=${this.handlePlayPause} @mouseenter=${() => this.showTooltip(this.isActive ? t.pauseTooltip : this.appState === 'paused' ? t.resumeTooltip : t.playTooltip)} @mouseleave=${this.hideTooltip}>
+            <span class="material-icons-round" style="font-size: 36px;" aria-hidden="true">${this.isActive ? 'pause' : 'play_arrow'}</span>
           </button>
-          <button class="icon-button" @click=${() => this.captureAndGenerate()} ?disabled=${this.isCoolingDown} @mouseenter=${() => this.showTooltip(this.isCoolingDown ? "AI Overload - Wait" : t.captureTooltip)} @mouseleave=${this.hideTooltip} style=${styleMap({opacity: this.isCoolingDown ? '0.2' : '1'})}>
+          ${this.appState !== 'idle' ? html`<button class="icon-button" @click=${this.requestStop} @mouseenter=${() => this.showTooltip(t.stopTooltip)} @mouseleave=${this.hideTooltip} aria-label=${t.stopTooltip}>
+            <span class="material-icons-round" aria-hidden="true">stop</span>
+          </button>` : nothing}
+          <button class="icon-button" @click=${() => this.captureAndGenerate("manual")} @mouseenter=${() => this.showTooltip(this.isCoolingDown ? t.localCaptureTooltip : t.captureTooltip)} @mouseleave=${this.hideTooltip} style=${styleMap({opacity: this.isCoolingDown ? '0.6' : '1'})}>
             <span class="material-icons-round" aria-hidden="true">camera</span>
           </button>
         </div>
@@ -836,6 +2505,93 @@ export class LyriaCamera extends LitElement {
           <input type="range" class="weight-slider" min="0" max="1" step="0.01" .value=${this.volume.toString()} @input=${(e:any) => { this.volume = +e.target.value; this.liveMusicHelper.setVolume(this.volume); }} />
           <span class="material-icons-round" style="font-size:14px; opacity:0.4;">volume_up</span>
         </div>
+        ${this.loudness && this.appState !== 'idle' ? html`<div class="loudness-readout" title="${t.loudness} (${t.integrated})">
+          ${this.formatLoudness(this.loudness.integrated)} LUFS
+          ${this.autoGain.enabled ? html`<span>• ${t.autoGain} ${this.loudness.autoGain >= 0 ? "+" : ""}${this.loudness.autoGain.toFixed(1)} dB</span>` : nothing}
+        </div>` : nothing}
+      </div>
+    `;
+  }
+
+  /** Transport for the video clip, with a marker for every cue the music will follow. */
+  private renderClipBar(t: any) {
+    const duration = this.clipDuration || 1;
+    return html`
+      <div class="clip-bar glass" role="group" aria-label="${t.clip}">
+        <button class="icon-button mini" @click=${this.toggleClip} aria-label=${this.clipPaused ? t.playClip : t.pauseClip}>
+          <span class="material-icons-round" style="font-size:18px;" aria-hidden="true">${this.clipPaused ? 'play_arrow' : 'pause'}</span>
+        </button>
+        <div class="clip-track">
+          ${this.clipCues.map(cue => html`<span class="clip-cue ${cue.id === this.activeCueId ? 'active' : ''}" style=${styleMap({ left: `${(cue.time / duration) * 100}%` })} title="${this.formatClock(cue.time)} • ${cue.analysis.prompts.map(p => p.text).join(" / ")}"></span>`)}
+          <input type="range" class="weight-slider" min="0" max=${duration} step="0.1" .value=${this.clipTime.toString()} @input=${(e:any) => this.seekClip(+e.target.value)} aria-label="${t.clipPosition}" />
+        </div>
+        <span class="clip-time">${this.formatClock(this.clipTime)} / ${this.formatClock(this.clipDuration)} • ${this.clipCues.length} ${t.cues}</span>
+      </div>
+    `;
+  }
+
+  private renderSlideBar(t: any) {
+    const slide = this.slides[this.slideIndex];
+    if (!slide) return nothing;
+    return html`
+      <div class="clip-bar glass" role="group" aria-label="${t.slideshow}">
+        <button class="icon-button mini" @click=${() => this.showSlide((this.slideIndex - 1 + this.slides.length) % this.slides.length)} aria-label="${t.previousSlide}">
+          <span class="material-icons-round" style="font-size:18px;" aria-hidden="true">skip_previous</span>
+        </button>
+        <span class="clip-time slide-label">${this.slideIndex + 1}/${this.slides.length} • ${slide.name}</span>
+        <span class="clip-time">${this.appState === 'idle' ? this.formatClock(slide.durationSeconds) : `-${this.formatClock(this.captureCountdown)}`}</span>
+        <button class="icon-button mini" @click=${() => this.showSlide((this.slideIndex + 1) % this.slides.length)} aria-label="${t.nextSlide}">
+          <span class="material-icons-round" style="font-size:18px;" aria-hidden="true">skip_next</span>
+        </button>
+      </div>
+    `;
+  }
+
+  private renderSlideshowEditor(t: any) {
+    return html`
+      <div class="sheet glass preview-sheet" role="dialog" aria-labelledby="slideshow-heading" @dragover=${this.handleDragOver} @drop=${this.handleSlideDrop}>
+        <div class="sheet-header"><h3 id="slideshow-heading">${t.slideshow}</h3></div>
+        <div class="slideshow-body">
+          <input class="engine-select glass" placeholder="${t.slideshowName}" .value=${this.slideshowName} @input=${(e:any) => this.slideshowName = e.target.value} />
+          <div class="slide-list" role="list">
+            ${this.slides.map((slide, i) => html`
+              <div class="slide-row" role="listitem">
+                <img src=${slide.src} alt="" />
+                <div class="slide-fields">
+                  <span class="slide-name">${i + 1}. ${slide.name}${slide.analysis ? html`<span class="material-icons-round slide-cached" title="${t.slideAnalyzed}" aria-label="${t.slideAnalyzed}">check_circle</span>` : nothing}</span>
+                  <div class="slide-controls">
+                    <input class="engine-select glass slide-seconds" type="number" min=${MIN_SLIDE_SECONDS} max=${MAX_SLIDE_SECONDS} .value=${slide.durationSeconds.toString()} @change=${(e:any) => this.updateSlide(i, { durationSeconds: clampSlideSeconds(+e.target.value) })} aria-label="${t.slideSeconds}" />
+                    <span>s</span>
+                    <select class="engine-select glass" @change=${(e:any) => this.updateSlide(i, { transition: e.target.value })} aria-label="${t.transition}">
+                      ${SLIDE_TRANSITIONS.map(tr => html`<option value=${tr} ?selected=${slide.transition === tr}>${t[tr]}</option>`)}
+                    </select>
+                  </div>
+                </div>
+                <div class="slide-actions">
+                  <button class="fav-action-btn material-icons-round" ?disabled=${i === 0} @click=${() => this.slides = moveSlide(this.slides, i, i - 1)} aria-label="${t.moveUp}">arrow_upward</button>
+                  <button class="fav-action-btn material-icons-round" ?disabled=${i === this.slides.length - 1} @click=${() => this.slides = moveSlide(this.slides, i, i + 1)} aria-label="${t.moveDown}">arrow_downward</button>
+                  <button class="fav-action-btn material-icons-round" @click=${() => this.slides = this.slides.filter((_, j) => j !== i)} aria-label="${t.delete}">delete_outline</button>
+                </div>
+              </div>
+            `)}
+          </div>
+          <button class="lang-btn" ?disabled=${this.slidesLoading} @click=${() => this.slidesInput.click()}>${this.slidesLoading ? t.loadingSlides : t.addSlides}</button>
+          <p class="scene-guards">${this.slides.length} ${t.slides} • ${this.formatClock(totalSlideSeconds(this.slides))} • ${t.dropImages}</p>
+          ${this.savedSlideshows.length > 0 ? html`
+            <label class="section-label" style="margin-top: 1.5rem;">${t.savedSlideshows}</label>
+            ${this.savedSlideshows.map(show => html`
+              <div class="saved-slideshow ${show.id === this.slideshowId ? 'active' : ''}">
+                <button class="saved-slideshow-open" @click=${() => this.openSavedSlideshow(show)}>${show.name} <span>${show.slides.length} ${t.slides} • ${this.formatClock(totalSlideSeconds(show.slides))}</span></button>
+                <button class="fav-action-btn material-icons-round" @click=${() => this.deleteSavedSlideshow(show.id)} aria-label="${t.delete}">delete_outline</button>
+              </div>
+            `)}
+          ` : nothing}
+        </div>
+        <div class="preview-actions">
+          <button class="btn-cancel" @click=${this.cancelSlideshowEditor}>${t.cancel}</button>
+          <button class="btn-cancel" ?disabled=${this.slides.length === 0} @click=${this.saveSlideshow}>${t.save}</button>
+          <button class="btn-begin" ?disabled=${this.slides.length === 0} @click=${this.beginSlideshow}>${t.begin}</button>
+        </div>
       </div>
     `;
   }
@@ -854,7 +2610,7 @@ export class LyriaCamera extends LitElement {
                     ${this.playingEchoId === f.id ? html`<span class="material-icons-round" style="font-size:16px; margin-right:8px; vertical-align:middle;">pause</span>` : html`<span class="material-icons-round" style="font-size:16px; margin-right:8px; vertical-align:middle;">play_arrow</span>`}
                     ${f.name}
                   </div>
-                  <div class="fav-meta">${f.prompts.length} Vibes • ${new Date(f.timestamp).toLocaleDateString()}</div>
+                  <div class="fav-meta">${f.prompts.length} Vibes • ${f.format.toUpperCase()}${f.integratedLoudness !== undefined ? ` • ${f.integratedLoudness.toFixed(1)} LUFS` : ""} • ${new Date(f.timestamp).toLocaleDateString()}</div>
                 </div>
                 <div class="fav-actions">
                   <button class="fav-action-btn material-icons-round" @click=${() => this.downloadEcho(f)}>download</button>
@@ -863,12 +2619,363 @@ export class LyriaCamera extends LitElement {
               </div>
             `)}
           </div>
+          <label class="section-label" style="margin-top: 1.5rem;">${t.captureFormat}</label>
+          <div class="language-toggle">
+            <button class="lang-btn ${this.captureFormat === 'wav' ? 'active' : ''}" @click=${() => this.setCaptureFormat('wav')}>WAV</button>
+            <button class="lang-btn ${this.captureFormat === 'flac' ? 'active' : ''}" @click=${() => this.setCaptureFormat('flac')}>FLAC</button>
+          </div>
+          <label class="section-label" style="margin-top: 1.5rem;">${t.captureLength}</label>
+          <div class="language-toggle">
+            ${CAPTURE_DURATIONS.map(d => html`<button class="lang-btn ${this.captureDuration === d.seconds ? 'active' : ''}" ?disabled=${this.isCapturingVibe} @click=${() => this.setCaptureDuration(d.seconds)}>${d.label}</button>`)}
+          </div>
           <label class="section-label" style="margin-top: 2rem;">Analysis Interval</label>
-          <div class="preset-grid">${INTERVAL_PRESETS.map(p => html`<button class="preset-card ${this.intervalPreset.labelSub === p.labelSub ? 'active' : ''}" @click=${() => { this.intervalPreset = p; this.startTimer(); }}><h4>${p.labelSub === 'INFINITE' ? t.infinite : p.labelSub}</h4><p>${p.labelValue === '∞' ? t.staticMood : `${t.analyzeEvery} ${p.labelValue}`}</p></button>`)}</div>
+          <div class="preset-grid">${INTERVAL_PRESETS.map(p => html`<button class="preset-card ${this.intervalPreset.labelSub === p.labelSub ? 'active' : ''}" @click=${() => { this.intervalPreset = { ...p }; this.startTimer(); }}><h4>${p.labelSub === 'INFINITE' ? t.infinite : p.sceneChange ? t.scene : p.labelSub}</h4><p>${p.labelValue === '∞' ? t.staticMood : p.sceneChange ? t.onSceneChange : `${t.analyzeEvery} ${p.labelValue}`}</p></button>`)}</div>
+          ${this.intervalPreset.sceneChange ? this.renderSceneChangeSettings(t, this.intervalPreset.sceneChange) : nothing}
           <div style="margin-top: 1.5rem;"><label class="section-label">${t.transitionSmoothness} (${this.intervalPreset.crossfadeSeconds}s)</label><input type="range" class="weight-slider" style="width:100%; margin-top:0.75rem;" min="0" max="25" .value=${this.intervalPreset.crossfadeSeconds.toString()} @input=${(e:any) => this.intervalPreset = {...this.intervalPreset, crossfadeSeconds: +e.target.value}} /></div>
+          ${this.renderCameraSettings(t)}
+          ${this.renderVisionSettings(t)}
+          ${this.renderQuotaSettings(t)}
+          ${this.renderTemplateSettings(t)}
+          ${this.renderTemporalContextSettings(t)}
+          ${this.renderEngineSettings(t)}
+          ${this.renderMasterSettings(t)}
+          ${this.renderLoudnessSettings(t)}
+          ${this.renderMotionSettings(t)}
           <div style="margin-top: 2rem;"><label class="section-label">${t.language}</label><div class="language-toggle"><button class="lang-btn ${this.language === 'en' ? 'active' : ''}" @click=${() => this.language = 'en'}>English</button><button class="lang-btn ${this.language === 'pt' ? 'active' : ''}" @click=${() => this.language = 'pt'}>Português</button></div></div>
         </div>
       </div>
     `;
   }
+
+  private renderVisionSettings(t: any) {
+    const { kind, baseUrl, model, apiKey } = this.visionSettings;
+    return html`
+      <label class="section-label" style="margin-top: 2rem;">${t.visionProvider}</label>
+      <div class="engine-settings">
+        <div class="language-toggle">
+          ${VISION_PROVIDER_KINDS.map(k => html`<button class="lang-btn ${kind === k ? 'active' : ''}" @click=${() => this.updateVisionSettings({ kind: k })}>${t[k]}</button>`)}
+        </div>
+        ${kind === "openai" ? html`
+          <div class="engine-row">
+            <div class="engine-row-header"><span>${t.baseUrl}</span></div>
+            <input class="engine-select glass" type="url" placeholder=${DEFAULT_VISION_PROVIDER_SETTINGS.baseUrl} .value=${baseUrl} @change=${(e:any) => this.updateVisionSettings({ baseUrl: e.target.value.trim() || DEFAULT_VISION_PROVIDER_SETTINGS.baseUrl })} />
+          </div>
+          <div class="engine-row">
+            <div class="engine-row-header"><span>${t.model}</span></div>
+            <input class="engine-select glass" type="text" placeholder=${DEFAULT_VISION_PROVIDER_SETTINGS.model} .value=${model} @change=${(e:any) => this.updateVisionSettings({ model: e.target.value.trim() || DEFAULT_VISION_PROVIDER_SETTINGS.model })} />
+          </div>
+          <div class="engine-row">
+            <div class="engine-row-header"><span>${t.apiKey}</span></div>
+            <input class="engine-select glass" type="password" autocomplete="off" placeholder=${t.optional} .value=${apiKey} @change=${(e:any) => this.updateVisionSettings({ apiKey: e.target.value.trim() })} />
+          </div>
+        ` : nothing}
+      </div>
+    `;
+  }
+
+  private renderTemplateSettings(t: any) {
+    const template = this.activeTemplate;
+    const body = this.templateDraft ?? template.body;
+    const unknown = findUnknownVariables(body);
+    const isDefault = template.id === DEFAULT_TEMPLATE_ID;
+    return html`
+      <label class="section-label" style="margin-top: 2rem;">${t.promptTemplate}</label>
+      <div class="engine-settings">
+        <div class="template-toolbar">
+          <select class="engine-select glass" @change=${(e:any) => this.selectTemplate(e.target.value)}>
+            ${this.templates.map(tp => html`<option value=${tp.id} ?selected=${tp.id === template.id}>${tp.name} · v${tp.version}</option>`)}
+          </select>
+          <button class="fav-action-btn material-icons-round" title=${t.duplicate} @click=${this.duplicateTemplate}>content_copy</button>
+          <button class="fav-action-btn material-icons-round" title=${t.importTemplates} @click=${() => this.templateInput.click()}>upload</button>
+          <button class="fav-action-btn material-icons-round" title=${t.exportTemplates} @click=${this.exportTemplates}>download</button>
+          <button class="fav-action-btn material-icons-round delete" title=${t.delete} ?disabled=${isDefault} @click=${this.deleteTemplate}>delete_outline</button>
+        </div>
+        ${isDefault ? nothing : html`
+          <input class="engine-select glass" type="text" .value=${template.name} @change=${(e:any) => this.renameTemplate(e.target.value)} />
+        `}
+        <textarea class="template-editor glass" spellcheck="false" .value=${body} @input=${(e:any) => this.templateDraft = e.target.value}></textarea>
+        <div class="template-vars">
+          ${PROMPT_VARIABLES.map(v => html`<code>{{${v}}}</code>`)}
+          ${unknown.length > 0 ? html`<span class="template-warning">${t.unknownVariables}: ${unknown.join(", ")}</span>` : nothing}
+        </div>
+        <div class="engine-toggles">
+          <button class="lang-btn" ?disabled=${this.templateDraft === null || this.templateDraft === template.body} @click=${this.saveTemplateDraft}>${t.saveVersion} v${template.version + 1}</button>
+          <button class="lang-btn" ?disabled=${this.templateDraft === null} @click=${() => this.templateDraft = null}>${t.discard}</button>
+        </div>
+        ${template.history.length > 0 ? html`
+          <select class="engine-select glass" @change=${(e:any) => { const v = template.history.find(h => h.version === +e.target.value); if (v) this.templateDraft = v.body; e.target.value = ""; }}>
+            <option value="" selected>${t.restoreVersion}</option>
+            ${template.history.map(h => html`<option value=${h.version}>v${h.version}${h.savedAt ? ` · ${new Date(h.savedAt).toLocaleString()}` : ""}</option>`)}
+          </select>
+        ` : nothing}
+        <div class="engine-row">
+          <div class="engine-row-header"><span>${t.styleHint}</span></div>
+          <input class="engine-select glass" type="text" placeholder=${t.styleHintPlaceholder} .value=${this.styleHint} @change=${(e:any) => this.setStyleHint(e.target.value)} />
+        </div>
+      </div>
+    `;
+  }
+
+  private renderEngineSettings(t: any) {
+    const toggles: EngineToggleKey[] = ["muteBass", "muteDrums", "onlyBassAndDrums"];
+    return html`
+      <label class="section-label" style="margin-top: 2rem;">${t.engine}</label>
+      <div class="engine-settings">
+        ${this.renderEngineSlider(t, "bpm", 60, 200, 1, 120)}
+        ${this.renderEngineSlider(t, "density", 0, 1, 0.01, 0.5)}
+        ${this.renderEngineSlider(t, "brightness", 0, 1, 0.01, 0.5)}
+        ${this.renderEngineSlider(t, "guidance", 0, 6, 0.1, 4)}
+        ${this.renderEngineSlider(t, "temperature", 0, 3, 0.05, 1.1)}
+        ${this.renderEngineSlider(t, "topK", 1, 1000, 1, 40)}
+        <div class="engine-row">
+          <div class="engine-row-header"><span>${t.scale}</span></div>
+          <select class="engine-select glass" @change=${(e:any) => this.updateEngineConfig({ scale: (e.target.value || undefined) as Scale | undefined })}>
+            <option value="" ?selected=${!this.engineConfig.scale}>${t.auto}</option>
+            ${SCALE_OPTIONS.map(o => html`<option value=${o.value} ?selected=${this.engineConfig.scale === o.value}>${o.label}</option>`)}
+          </select>
+        </div>
+        <div class="engine-row">
+          <div class="engine-row-header"><span>${t.seed}</span></div>
+          <input class="engine-select glass" type="number" placeholder="${t.auto}" .value=${this.engineConfig.seed?.toString() ?? ""} @change=${(e:any) => this.updateEngineConfig({ seed: e.target.value === "" ? undefined : Math.round(+e.target.value) })} />
+        </div>
+        <div class="engine-toggles">
+          ${toggles.map(key => html`<button class="lang-btn ${this.engineConfig[key] ? 'active' : ''}" @click=${() => this.updateEngineConfig({ [key]: this.engineConfig[key] ? undefined : true })}>${t[key]}</button>`)}
+        </div>
+      </div>
+    `;
+  }
+
+  private renderEngineSlider(t: any, key: EngineSliderKey, min: number, max: number, step: number, fallback: number) {
+    const value = this.engineConfig[key];
+    return html`
+      <div class="engine-row">
+        <div class="engine-row-header">
+          <span>${t[key]}</span>
+          <span class="engine-value">
+            ${value ?? t.auto}
+            ${value !== undefined ? html`<button class="engine-reset material-icons-round" @click=${() => this.updateEngineConfig({ [key]: undefined })} aria-label="${t.auto}">restart_alt</button>` : nothing}
+          </span>
+        </div>
+        <input type="range" class="weight-slider" min=${min} max=${max} step=${step} .value=${(value ?? fallback).toString()}
+          @input=${(e:any) => this.engineConfig = { ...this.engineConfig, [key]: +e.target.value }}
+          @change=${(e:any) => this.updateEngineConfig({ [key]: +e.target.value })} />
+      </div>
+    `;
+  }
+
+  private renderMasterSettings(t: any) {
+    const activePreset = this.activeMasterPreset;
+    const { eq, reverb, compressor, limiter } = this.masterSettings;
+    return html`
+      <label class="section-label" style="margin-top: 2rem;">${t.masterFx}</label>
+      <div class="engine-settings">
+        <div class="language-toggle master-presets">
+          ${(Object.keys(MASTER_PRESETS) as MasterPresetName[]).map(name => html`<button class="lang-btn ${activePreset === name ? 'active' : ''}" @click=${() => this.updateMasterSettings(structuredClone(MASTER_PRESETS[name]), `${name} preset`)}>${name}</button>`)}
+          <button class="lang-btn ${activePreset === null ? 'active' : ''}" disabled>${t.custom}</button>
+        </div>
+        <div class="engine-toggles">
+          ${MASTER_STAGES.map(stage => html`<button class="lang-btn ${this.masterSettings[stage].bypass ? '' : 'active'}" @click=${() => this.updateMasterStage(stage, { bypass: !this.masterSettings[stage].bypass })}>${t[stage]}</button>`)}
+        </div>
+        ${eq.bypass ? nothing : html`
+          ${this.renderMasterSlider(t, "eq", "lowGain", -12, 12, 0.5, "dB")}
+          ${this.renderMasterSlider(t, "eq", "midGain", -12, 12, 0.5, "dB")}
+          ${this.renderMasterSlider(t, "eq", "highGain", -12, 12, 0.5, "dB")}
+        `}
+        ${reverb.bypass ? nothing : html`
+          ${this.renderMasterSlider(t, "reverb", "mix", 0, 1, 0.01, "")}
+          ${this.renderMasterSlider(t, "reverb", "decay", 0.2, 8, 0.1, "s")}
+          ${this.renderMasterSlider(t, "reverb", "damping", 0, 1, 0.01, "")}
+        `}
+        ${compressor.bypass ? nothing : html`
+          ${this.renderMasterSlider(t, "compressor", "threshold", -60, 0, 1, "dB")}
+          ${this.renderMasterSlider(t, "compressor", "ratio", 1, 20, 0.5, ":1")}
+        `}
+        ${limiter.bypass ? nothing : this.renderMasterSlider(t, "limiter", "ceiling", -12, 0, 0.1, "dB")}
+      </div>
+    `;
+  }
+
+  private renderMasterSlider<S extends MasterStage>(t: any, stage: S, key: keyof MasterChainSettings[S] & string, min: number, max: number, step: number, unit: string) {
+    const value = this.masterSettings[stage][key] as number;
+    return html`
+      <div class="engine-row">
+        <div class="engine-row-header">
+          <span>${t[stage]} · ${t[key]}</span>
+          <span class="engine-value">${value}${unit}</span>
+        </div>
+        <input type="range" class="weight-slider" min=${min} max=${max} step=${step} .value=${value.toString()}
+          @input=${(e:any) => this.masterSettings = { ...this.masterSettings, [stage]: { ...this.masterSettings[stage], [key]: +e.target.value } }}
+          @change=${(e:any) => this.updateMasterStage(stage, { [key]: +e.target.value } as Partial<MasterChainSettings[S]>)} />
+      </div>
+    `;
+  }
+
+  private renderLoudnessSettings(t: any) {
+    return html`
+      <label class="section-label" style="margin-top: 2rem;">${t.loudness}</label>
+      <div class="engine-settings">
+        <div class="engine-toggles">
+          <button class="lang-btn ${this.autoGain.enabled ? 'active' : ''}" @click=${() => this.updateAutoGain({ enabled: !this.autoGain.enabled })}>${t.autoGain}</button>
+        </div>
+        <div class="engine-row">
+          <div class="engine-row-header">
+            <span>${t.targetLoudness}</span>
+            <span class="engine-value">${this.autoGain.target} LUFS</span>
+          </div>
+          <input type="range" class="weight-slider" min="-30" max="-8" step="1" .value=${this.autoGain.target.toString()} ?disabled=${!this.autoGain.enabled}
+            @input=${(e:any) => this.autoGain = { ...this.autoGain, target: +e.target.value }}
+            @change=${(e:any) => this.updateAutoGain({ target: +e.target.value })} />
+        </div>
+      </div>
+    `;
+  }
+
+  private renderCameraSettings(t: any) {
+    const { deviceId, label, resolution, frameRate, mirror } = this.cameraSettings;
+    const missing = deviceId && !findCamera(this.cameras, this.cameraSettings);
+    const active = this.currentSource === "camera" ? this.activeCamera : null;
+    const mirrorOptions: [boolean | null, string][] = [[null, t.auto], [true, t.on], [false, t.off]];
+    return html`
+      <label class="section-label" style="margin-top: 2rem;">${t.cameraDevice}</label>
+      <div class="engine-settings">
+        <div class="engine-row">
+          <div class="engine-row-header"><span>${t.cameraDevice}</span></div>
+          <select class="engine-select glass" @change=${(e:any) => {
+            const device = this.cameras.find(d => d.deviceId === e.target.value);
+            this.updateCameraSettings({ deviceId: device?.deviceId ?? null, label: device?.label || null });
+          }}>
+            <option value="" ?selected=${!deviceId}>${t.auto}</option>
+            ${this.cameras.map((d, i) => html`<option value=${d.deviceId} ?selected=${d.deviceId === findCamera(this.cameras, this.cameraSettings)?.deviceId}>${d.label || `${t.camera} ${i + 1}`}</option>`)}
+            ${missing ? html`<option value=${deviceId} selected disabled>${label || deviceId} (${t.disconnected})</option>` : nothing}
+          </select>
+        </div>
+        <div class="engine-row">
+          <div class="engine-row-header"><span>${t.resolution}</span></div>
+          <select class="engine-select glass" @change=${(e:any) => this.updateCameraSettings({ resolution: e.target.value || null })}>
+            <option value="" ?selected=${!resolution}>${t.auto}</option>
+            ${CAMERA_RESOLUTIONS.map(r => html`<option value=${r.id} ?selected=${resolution === r.id}>${r.label}</option>`)}
+          </select>
+        </div>
+        <div class="engine-row">
+          <div class="engine-row-header"><span>${t.frameRate}</span></div>
+          <select class="engine-select glass" @change=${(e:any) => this.updateCameraSettings({ frameRate: e.target.value ? +e.target.value : null })}>
+            <option value="" ?selected=${!frameRate}>${t.auto}</option>
+            ${CAMERA_FRAME_RATES.map(fps => html`<option value=${fps} ?selected=${frameRate === fps}>${fps} fps</option>`)}
+          </select>
+        </div>
+        <div class="engine-row">
+          <div class="engine-row-header"><span>${t.mirror}</span></div>
+          <div class="engine-toggles">
+            ${mirrorOptions.map(([value, text]) => html`<button class="lang-btn ${mirror === value ? 'active' : ''}" @click=${() => this.updateCameraSettings({ mirror: value })}>${text}</button>`)}
+          </div>
+        </div>
+        ${active ? html`<p class="scene-guards">${active.label || t.camera}${active.width ? ` • ${active.width}×${active.height}` : ""}${active.frameRate ? ` • ${Math.round(active.frameRate)} fps` : ""}</p>` : nothing}
+      </div>
+    `;
+  }
+
+  private renderQuotaSummary() {
+    const status = this.quotaStatus;
+    if (!status) return "--";
+    const { requestsPerMinute, requestsPerDay } = this.quotaSettings;
+    const wait = status.state === "ready" ? "" : ` • next ${this.formatWait(status)}`;
+    return `${status.state} • ${status.minuteRemaining}/${requestsPerMinute} min • ${status.dayRemaining}/${requestsPerDay} day${wait} • queued ${status.queued}`;
+  }
+
+  private renderQuotaBadge(t: any) {
+    const status = this.quotaStatus;
+    if (!status || this.appState === 'idle' || this.visionProvider.kind === "mock") return nothing;
+    const label = status.state === "ready" ? `${status.minuteRemaining}/${this.quotaSettings.requestsPerMinute} ${t.perMinute}` : `${t.nextAnalysis} ${this.formatWait(status)}`;
+    return html`<span class="analyzer-badge quota-badge ${status.state}" title="${t.quotaToday}: ${status.dayRemaining}/${this.quotaSettings.requestsPerDay}">${label}</span>`;
+  }
+
+  private renderQuotaSettings(t: any) {
+    const { requestsPerMinute, requestsPerDay } = this.quotaSettings;
+    return html`
+      <label class="section-label" style="margin-top: 2rem;">${t.quota}</label>
+      <div class="engine-settings">
+        <div class="engine-row">
+          <div class="engine-row-header"><span>${t.requestsPerMinute}</span><span class="engine-value">${requestsPerMinute}</span></div>
+          <input type="range" class="weight-slider" min="1" max="60" step="1" .value=${requestsPerMinute.toString()}
+            @input=${(e:any) => this.quotaSettings = { ...this.quotaSettings, requestsPerMinute: +e.target.value }}
+            @change=${(e:any) => this.updateQuotaSettings({ requestsPerMinute: +e.target.value })} />
+        </div>
+        <div class="engine-row">
+          <div class="engine-row-header"><span>${t.requestsPerDay}</span><span class="engine-value">${requestsPerDay}</span></div>
+          <input type="range" class="weight-slider" min="10" max="2000" step="10" .value=${requestsPerDay.toString()}
+            @input=${(e:any) => this.quotaSettings = { ...this.quotaSettings, requestsPerDay: +e.target.value }}
+            @change=${(e:any) => this.updateQuotaSettings({ requestsPerDay: +e.target.value })} />
+        </div>
+        ${this.quotaStatus ? html`<p class="scene-guards">${this.renderQuotaSummary()}</p>` : nothing}
+      </div>
+    `;
+  }
+
+  private renderTemporalContextSettings(t: any) {
+    const { frames, spacingSeconds, contactSheet } = this.temporalContext;
+    return html`
+      <label class="section-label" style="margin-top: 2rem;">${t.temporalContext}</label>
+      <div class="engine-settings">
+        <div class="engine-row">
+          <div class="engine-row-header"><span>${t.framesPerAnalysis}</span><span class="engine-value">${frames}</span></div>
+          <input type="range" class="weight-slider" min="1" max=${MAX_CONTEXT_FRAMES} step="1" .value=${frames.toString()}
+            @input=${(e:any) => this.updateTemporalContext({ frames: +e.target.value })} />
+        </div>
+        <div class="engine-row">
+          <div class="engine-row-header"><span>${t.frameSpacing}</span><span class="engine-value">${spacingSeconds}s</span></div>
+          <input type="range" class="weight-slider" min="1" max="10" step="1" .value=${spacingSeconds.toString()} ?disabled=${frames === 1}
+            @input=${(e:any) => this.temporalContext = { ...this.temporalContext, spacingSeconds: +e.target.value }}
+            @change=${(e:any) => this.updateTemporalContext({ spacingSeconds: +e.target.value })} />
+        </div>
+        <div class="engine-toggles">
+          <button class="lang-btn ${contactSheet ? 'active' : ''}" ?disabled=${frames === 1} @click=${() => this.updateTemporalContext({ contactSheet: !contactSheet })}>${t.contactSheet}</button>
+        </div>
+      </div>
+    `;
+  }
+
+  private renderSceneChangeSettings(t: any, trigger: SceneChangeTrigger) {
+    return html`
+      <div style="margin-top: 1.5rem;">
+        <label class="section-label">${t.sceneThreshold} (Δ ${trigger.threshold.toFixed(2)})</label>
+        <input type="range" class="weight-slider" style="width:100%; margin-top:0.75rem;" min="0.05" max="0.6" step="0.01" .value=${trigger.threshold.toString()}
+          @input=${(e:any) => this.intervalPreset = { ...this.intervalPreset, sceneChange: { ...trigger, threshold: +e.target.value } }} />
+        <p class="scene-guards">${t.minWait} ${trigger.minSeconds}s • ${t.maxWait} ${this.intervalPreset.captureSeconds}s</p>
+      </div>
+    `;
+  }
+
+  private renderMotionSettings(t: any) {
+    const { enabled, smoothing, routes } = this.motionSettings;
+    return html`
+      <label class="section-label" style="margin-top: 2rem;">${t.motionModulation}</label>
+      <div class="engine-settings">
+        <div class="engine-toggles">
+          <button class="lang-btn ${enabled ? 'active' : ''}" @click=${() => this.updateMotionSettings({ enabled: !enabled })}>${t.motion}</button>
+        </div>
+        <div class="engine-row">
+          <div class="engine-row-header"><span>${t.smoothing}</span><span class="engine-value">${smoothing.toFixed(1)}s</span></div>
+          <input type="range" class="weight-slider" min="0" max="3" step="0.1" .value=${smoothing.toString()}
+            @input=${(e:any) => this.motionSettings = { ...this.motionSettings, smoothing: +e.target.value }}
+            @change=${(e:any) => this.updateMotionSettings({ smoothing: +e.target.value })} />
+        </div>
+        ${MODULATION_TARGETS.map(target => html`
+          <div class="engine-row">
+            <div class="engine-row-header"><span>${t[target]}</span><span class="engine-value">${Math.round(routes[target].amount * 100)}%</span></div>
+            <div class="motion-route">
+              <select class="engine-select glass" @change=${(e:any) => this.updateModulationRoute(target, { source: e.target.value })}>
+                ${MOTION_FEATURES.map(f => html`<option value=${f} ?selected=${routes[target].source === f}>${t[f]}</option>`)}
+              </select>
+              <select class="engine-select glass" @change=${(e:any) => this.updateModulationRoute(target, { curve: e.target.value })}>
+                ${MODULATION_CURVES.map(c => html`<option value=${c} ?selected=${routes[target].curve === c}>${t[c]}</option>`)}
+              </select>
+            </div>
+            <input type="range" class="weight-slider" min="0" max="1" step="0.05" .value=${routes[target].amount.toString()}
+              @input=${(e:any) => this.motionSettings = { ...this.motionSettings, routes: { ...routes, [target]: { ...routes[target], amount: +e.target.value } } }}
+              @change=${(e:any) => this.updateModulationRoute(target, { amount: +e.target.value })} />
+          </div>
+        `)}
+      </div>
+    `;
+  }
 }
@@ -66,6 +66,21 @@ export default css`
     transition: opacity 1.5s ease;
   }
 
+  img.slide-fade-out {
+    position: absolute;
+    inset: 0;
+    width: 100%;
+    height: 100%;
+    object-fit: cover;
+    opacity: 0.35;
+    pointer-events: none;
+    animation: slideFadeOut ease forwards;
+  }
+
+  @keyframes slideFadeOut {
+    to { opacity: 0; }
+  }
+
   #video-container.analyzing video, #video-container.analyzing img#uploaded-image-el {
     opacity: 0.7;
     animation: pulseView 2s infinite ease-in-out;
@@ -138,6 +153,13 @@ export default css`
     transition: opacity 0.1s ease;
   }
 
+  .roi-overlay { position: absolute; inset: 0; z-index: 1; pointer-events: none; overflow: hidden; }
+  .roi-overlay.editing { z-index: 20; pointer-events: auto; cursor: crosshair; touch-action: none; background: rgba(0,0,0,0.25); }
+  .roi-frame { position: absolute; }
+  .roi-rect { position: absolute; border: 1px dashed rgba(255,255,255,0.6); border-radius: 4px; box-shadow: 0 0 0 100vmax rgba(0,0,0,0.35); }
+  .roi-overlay.editing .roi-rect { border-style: solid; border-color: white; cursor: move; }
+  .roi-handle { position: absolute; right: -8px; bottom: -8px; width: 16px; height: 16px; border-radius: 50%; background: white; cursor: nwse-resize; }
+  .roi-toolbar { position: absolute; left: 50%; bottom: 2rem; transform: translateX(-50%); display: flex; align-items: center; gap: 0.75rem; padding: 0.5rem 0.5rem 0.5rem 1rem; border-radius: 16px; font-size: 0.75rem; cursor: default; }
   #ui-layer { position: absolute; inset: 0; z-index: 10; display: flex; flex-direction: column; pointer-events: none; }
   #ui-layer > * { pointer-events: auto; }
 
@@ -177,7 +199,7 @@ export default css`
   .logo-title .thin { font-weight: 100; opacity: 0.3; }
   .subtitle { font-size: 0.95rem; color: rgba(255, 255, 255, 0.45); margin: 1.5rem 0 3.5rem; max-width: 420px; line-height: 1.6; }
 
-  .source-grid { display: grid; grid-template-columns: repeat(3, 1fr); gap: 1.25rem; width: 100%; max-width: 380px; }
+  .source-grid { display: grid; grid-template-columns: repeat(auto-fit, minmax(84px, 1fr)); gap: 1.25rem; width: 100%; max-width: 580px; }
   .source-card { background: rgba(255, 255, 255, 0.03); border-radius: 28px; padding: 1.75rem 0; display: flex; flex-direction: column; align-items: center; gap: 0.75rem; cursor: pointer; transition: 0.3s; border: none; color: white; }
   .source-card:hover { background: rgba(255, 255, 255, 0.1); transform: translateY(-5px); }
   .card-icon { font-size: 32px; opacity: 0.9; }
@@ -187,6 +209,7 @@ export default css`
 
   .icon-button { width: 48px; height: 48px; border-radius: 50%; display: flex; align-items: center; justify-content: center; background: rgba(255, 255, 255, 0.08); backdrop-filter: blur(20px); color: white; cursor: pointer; border: none; transition: 0.2s; }
   .icon-button:active { transform: scale(0.92); }
+  .icon-button.active { background: rgba(255, 255, 255, 0.25); }
   .icon-button.mini { width: 36px; height: 36px; background: rgba(255,255,255,0.05); }
 
   #prompts-container { flex: 1; display: flex; flex-direction: column; padding: 0 1.25rem; gap: 0.85rem; overflow-y: auto; scrollbar-width: none; mask-image: linear-gradient(to bottom, transparent, black 5%, black 95%, transparent); }
@@ -194,9 +217,24 @@ export default css`
 
   .prompts-actions { display: flex; justify-content: space-between; padding: 1rem 0 0.5rem; }
 
+  .scene-guards { margin: 0.5rem 0 0; font-size: 0.65rem; opacity: 0.4; }
+  .scene-card { background: rgba(20, 20, 20, 0.45); backdrop-filter: blur(50px); border: 1px solid rgba(255, 255, 255, 0.06); border-radius: 20px; padding: 1rem 1.25rem; display: flex; flex-direction: column; gap: 0.6rem; }
+  .scene-description { margin: 0; font-size: 0.8rem; line-height: 1.5; opacity: 0.75; }
+  .scene-stats { display: flex; flex-wrap: wrap; gap: 6px; }
+  .scene-chip { font-size: 0.65rem; font-weight: 700; letter-spacing: 0.05em; text-transform: uppercase; padding: 4px 10px; border-radius: 999px; background: rgba(255,255,255,0.08); }
+  .scene-energy { display: flex; align-items: center; gap: 10px; font-size: 0.65rem; opacity: 0.6; }
+  .scene-energy-track { flex: 1; height: 3px; border-radius: 2px; background: rgba(255,255,255,0.1); overflow: hidden; }
+  .scene-energy-fill { height: 100%; background: white; transition: width 0.6s ease; }
+  .scene-instruments { font-size: 0.65rem; opacity: 0.5; }
   .prompt-tag { background: rgba(20, 20, 20, 0.6); backdrop-filter: blur(50px); border: 1px solid rgba(255, 255, 255, 0.1); border-radius: 20px; padding: 1.25rem; display: flex; flex-direction: column; gap: 0.75rem; }
   .prompt-header { display: flex; justify-content: space-between; align-items: flex-start; }
   .prompt-text { font-size: 0.9rem; line-height: 1.5; opacity: 0.9; }
+  .prompt-tag.filtered { border-color: rgba(255, 159, 10, 0.5); }
+  .prompt-tag.filtered .prompt-text { opacity: 0.45; text-decoration: line-through; }
+  .filtered-notice { display: flex; align-items: center; gap: 6px; font-size: 0.7rem; color: #ff9f0a; }
+  .filtered-reason { flex: 1; }
+  .rephrase-btn { display: flex; align-items: center; gap: 4px; padding: 4px 10px; border-radius: 10px; border: 1px solid rgba(255, 159, 10, 0.5); background: none; color: inherit; font-size: 0.7rem; cursor: pointer; }
+  .rephrase-btn:disabled { opacity: 0.4; cursor: default; }
   .delete-btn { opacity: 0.3; cursor: pointer; background: none; border: none; color: inherit; padding: 4px; }
   .delete-btn:hover { opacity: 1; color: #ff4d4d; }
 
@@ -213,6 +251,29 @@ export default css`
   .play-btn:active { transform: scale(0.9); }
 
   .status-pill { background: rgba(255, 255, 255, 0.05); padding: 6px 14px; border-radius: 20px; font-size: 0.6rem; font-weight: 800; text-transform: uppercase; letter-spacing: 0.15em; opacity: 0.6; }
+  .status-row { display: flex; align-items: center; gap: 0.5rem; }
+  .timeline { background: rgba(20, 20, 20, 0.45); backdrop-filter: blur(50px); border: 1px solid rgba(255, 255, 255, 0.06); border-radius: 20px; padding: 0.6rem 0.75rem 0.75rem; }
+  .timeline-header { display: flex; justify-content: space-between; align-items: center; font-size: 0.6rem; font-weight: 900; text-transform: uppercase; letter-spacing: 0.15em; opacity: 0.6; }
+  .timeline-strip { display: flex; gap: 6px; overflow-x: auto; scrollbar-width: none; padding-top: 0.4rem; }
+  .timeline-entry { position: relative; flex: 0 0 auto; width: 56px; height: 56px; padding: 0; border-radius: 10px; overflow: hidden; border: 2px solid transparent; background: none; cursor: pointer; opacity: 0.6; transition: 0.2s; }
+  .timeline-entry:hover:not(:disabled), .timeline-entry.active { opacity: 1; }
+  .timeline-entry.active { border-color: white; }
+  .timeline-entry:disabled { cursor: default; }
+  .timeline-entry img { width: 100%; height: 100%; object-fit: cover; display: block; }
+  .timeline-time { position: absolute; left: 0; right: 0; bottom: 0; font-size: 0.5rem; color: white; background: rgba(0,0,0,0.55); text-align: center; }
+  .template-toolbar { display: flex; align-items: center; gap: 4px; }
+  .template-toolbar select { flex: 1; min-width: 0; }
+  .template-toolbar .fav-action-btn:disabled { opacity: 0.1; cursor: default; background: none; }
+  .template-editor { min-height: 180px; resize: vertical; border-radius: 12px; padding: 12px; color: white; font: 0.75rem/1.5 ui-monospace, monospace; outline: none; }
+  .template-vars { display: flex; flex-wrap: wrap; gap: 6px; font-size: 0.65rem; }
+  .template-vars code { padding: 2px 6px; border-radius: 6px; background: rgba(255,255,255,0.08); opacity: 0.7; }
+  .template-warning { color: #ff9f0a; }
+  .analyzer-badge { margin-left: 8px; padding: 2px 6px; border-radius: 6px; background: rgba(255,255,255,0.12); font-size: 0.6rem; letter-spacing: 0.08em; }
+  .quota-badge.throttled, .quota-badge.exhausted { background: rgba(255, 159, 10, 0.25); }
+  .quota-badge.coolingDown { background: rgba(255, 69, 58, 0.25); }
+  .reconnect-btn { display: flex; align-items: center; gap: 6px; background: #ff453a; color: white; border: none; border-radius: 20px; padding: 6px 14px; font-size: 0.6rem; font-weight: 800; text-transform: uppercase; letter-spacing: 0.15em; cursor: pointer; }
+  .reconnect-btn:active { transform: scale(0.95); }
+  .loudness-readout { display: flex; align-items: center; gap: 6px; font-size: 0.65rem; font-weight: 700; letter-spacing: 0.05em; opacity: 0.5; font-variant-numeric: tabular-nums; }
   .volume-bar { display: flex; align-items: center; gap: 0.75rem; width: 100%; max-width: 220px; opacity: 0.6; }
 
   .sheet {
@@ -255,6 +316,23 @@ export default css`
   .preview-image-container img { max-width: 100%; max-height: 100%; object-fit: contain; }
   .preview-actions { flex-shrink: 0; display: flex; gap: 12px; }
 
+  .slideshow-body { flex: 1; min-height: 0; overflow-y: auto; display: flex; flex-direction: column; gap: 10px; margin-bottom: 1.5rem; }
+  .slide-list { display: flex; flex-direction: column; gap: 8px; }
+  .slide-row { display: flex; align-items: center; gap: 10px; padding: 6px; border-radius: 14px; background: rgba(255, 255, 255, 0.04); }
+  .slide-row img { width: 64px; height: 44px; object-fit: cover; border-radius: 8px; flex-shrink: 0; }
+  .slide-fields { flex: 1; min-width: 0; display: flex; flex-direction: column; gap: 4px; }
+  .slide-name { display: flex; align-items: center; gap: 4px; font-size: 0.75rem; font-weight: 600; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+  .slide-cached { font-size: 14px; color: #30d158; }
+  .slide-controls { display: flex; align-items: center; gap: 6px; font-size: 0.7rem; opacity: 0.8; }
+  .slide-controls .engine-select { padding: 4px 8px; font-size: 0.7rem; }
+  .slide-seconds { width: 56px; }
+  .slide-actions { display: flex; flex-shrink: 0; }
+  .slide-actions button:disabled { opacity: 0.2; cursor: default; }
+  .saved-slideshow { display: flex; align-items: center; gap: 6px; border-radius: 12px; }
+  .saved-slideshow.active { background: rgba(255, 255, 255, 0.08); }
+  .saved-slideshow-open { flex: 1; display: flex; justify-content: space-between; gap: 8px; padding: 8px 10px; background: none; border: none; color: white; cursor: pointer; font-size: 0.8rem; text-align: left; }
+  .saved-slideshow-open span { opacity: 0.5; font-size: 0.7rem; }
+  .btn-cancel:disabled, .btn-begin:disabled { opacity: 0.3; cursor: default; }
   .btn-cancel { flex: 1; background: rgba(255, 255, 255, 0.1); height: 52px; border-radius: 26px; border: none; color: white; cursor: pointer; font-weight: 600; }
   .btn-begin { flex: 2; background: white; color: black; height: 52px; border-radius: 26px; border: none; cursor: pointer; font-weight: 800; text-transform: uppercase; letter-spacing: 0.1em; }
 
@@ -298,6 +376,29 @@ export default css`
     transition: width 0.1s linear; 
   }
 
+  .engine-settings { display: flex; flex-direction: column; gap: 1.1rem; }
+  .engine-row { display: flex; flex-direction: column; gap: 0.6rem; }
+  .engine-row-header { display: flex; justify-content: space-between; align-items: center; font-size: 0.75rem; opacity: 0.7; }
+  .engine-value { display: flex; align-items: center; gap: 4px; font-weight: 700; font-variant-numeric: tabular-nums; }
+  .engine-reset { background: none; border: none; color: inherit; cursor: pointer; font-size: 14px; opacity: 0.5; padding: 0; }
+  .engine-reset:hover { opacity: 1; }
+  .engine-select { border-radius: 12px; padding: 10px 12px; color: white; font-size: 0.75rem; outline: none; }
+  .engine-select option { background: #111; }
+  .master-presets { margin-bottom: 0.25rem; }
+  .motion-route { display: grid; grid-template-columns: 1fr 1fr; gap: 6px; }
+  .engine-toggles { display: flex; background: rgba(255,255,255,0.05); border-radius: 12px; padding: 4px; gap: 4px; }
+
+  .clip-bar { display: flex; align-items: center; gap: 10px; width: 100%; max-width: 520px; padding: 6px 12px 6px 6px; border-radius: 999px; }
+  .clip-track { position: relative; flex: 1; display: flex; align-items: center; height: 20px; }
+  .clip-cue { position: absolute; top: 2px; width: 2px; height: 6px; margin-left: -1px; background: rgba(255, 255, 255, 0.4); border-radius: 1px; pointer-events: none; }
+  .clip-cue.active { background: white; height: 8px; }
+  .clip-time { font-size: 0.65rem; font-weight: 700; opacity: 0.6; font-variant-numeric: tabular-nums; white-space: nowrap; }
+  .slide-label { flex: 1; min-width: 0; overflow: hidden; text-overflow: ellipsis; }
+  .capture-clock { display: flex; align-items: center; gap: 8px; font-size: 0.7rem; font-weight: 800; letter-spacing: 0.1em; font-variant-numeric: tabular-nums; }
+  .capture-remaining { opacity: 0.4; }
+  .rec-dot { width: 8px; height: 8px; border-radius: 50%; background: #ff453a; animation: recPulse 1.2s infinite ease-in-out; }
+  @keyframes recPulse { 0%, 100% { opacity: 1; } 50% { opacity: 0.3; } }
+
   .language-toggle { display: flex; background: rgba(255,255,255,0.05); border-radius: 12px; padding: 4px; gap: 4px; }
   .lang-btn { flex: 1; padding: 10px; border-radius: 8px; font-size: 0.7rem; font-weight: 800; cursor: pointer; border: none; background: transparent; color: rgba(255,255,255,0.3); }
   .lang-btn.active { background: rgba(255,255,255,0.1); color: white; }
@@ -361,6 +462,11 @@ export default css`
     border-bottom: 1px solid rgba(255,255,255,0.1);
     color: #00ff88;
   }
+  .debug-buffer { padding-bottom: 12px; margin-bottom: 12px; border-bottom: 1px solid rgba(255,255,255,0.1); }
+  .debug-buffer-stats { margin-bottom: 8px; opacity: 0.8; }
+  #buffer-chart { width: 100%; height: 60px; display: block; background: rgba(255,255,255,0.03); border-radius: 6px; }
+  .debug-buffer-target { display: flex; align-items: center; gap: 10px; margin-top: 8px; opacity: 0.8; }
+  .debug-buffer-target input { flex: 1; }
   .debug-log-line { display: flex; gap: 10px; opacity: 0.8; line-height: 1.4; }
   .debug-log-line.error { color: #ff453a; opacity: 1; }
   .debug-log-line.warn { color: #ffd60a; opacity: 1; }
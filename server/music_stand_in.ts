@@ -0,0 +1,171 @@
+/**
+ * @fileoverview A local stand-in for the Lyria RealTime music service. It speaks
+ * the same JSON wire protocol as the Live Music API and streams synthesized
+ * 48 kHz stereo PCM, so the playback pipeline can be exercised offline.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import { WebSocketServer, type WebSocket } from "ws";
+
+export const MUSIC_STAND_IN_PATH = "/music-stand-in";
+
+const SAMPLE_RATE = 48000;
+const CHANNELS = 2;
+const CHUNK_SECONDS = 2;
+// Chunks sent ahead of real time, mirroring the service's initial burst.
+const LEAD_CHUNKS = 2;
+// Prompts containing this tag are rejected with a `filteredPrompt` message.
+const FILTER_TAG = /\[filter\]/i;
+// A minor pentatonic over A3, so any mix of prompts stays consonant.
+const SCALE_RATIOS = [1, 6 / 5, 4 / 3, 3 / 2, 9 / 5, 2];
+const ROOT_HZ = 220;
+
+interface WeightedPrompt {
+  text: string;
+  weight: number;
+}
+
+interface Voice {
+  text: string;
+  gain: number;
+  frequency: number;
+  pan: number;
+  phase: number;
+}
+
+interface ClientMessage {
+  setup?: object;
+  clientContent?: { weightedPrompts?: WeightedPrompt[] };
+  musicGenerationConfig?: { bpm?: number; density?: number; brightness?: number };
+  playbackControl?: "PLAY" | "PAUSE" | "STOP" | "RESET_CONTEXT";
+}
+
+function hashText(text: string) {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) hash = (hash * 31 + text.charCodeAt(i)) | 0;
+  return Math.abs(hash);
+}
+
+class StandInSession {
+  private prompts: WeightedPrompt[] = [];
+  private voices: Voice[] = [];
+  private config: NonNullable<ClientMessage["musicGenerationConfig"]> = {};
+  private timer: NodeJS.Timeout | null = null;
+  private beatPhase = 0;
+
+  constructor(private readonly ws: WebSocket) {
+    ws.on("message", (raw) => this.handleMessage(raw.toString()));
+    ws.on("close", () => this.halt());
+  }
+
+  private handleMessage(raw: string) {
+    let message: ClientMessage;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      return;
+    }
+
+    if (message.setup) this.send({ setupComplete: {} });
+    if (message.clientContent?.weightedPrompts) this.setPrompts(message.clientContent.weightedPrompts);
+    if (message.musicGenerationConfig) this.config = { ...message.musicGenerationConfig };
+
+    switch (message.playbackControl) {
+      case "PLAY": this.start(); break;
+      case "PAUSE": this.halt(); break;
+      case "STOP": this.halt(); this.resetContext(); break;
+      case "RESET_CONTEXT": this.resetContext(); break;
+    }
+  }
+
+  private setPrompts(prompts: WeightedPrompt[]) {
+    const accepted: WeightedPrompt[] = [];
+    for (const p of prompts) {
+      if (FILTER_TAG.test(p.text)) {
+        this.send({ filteredPrompt: { text: p.text, filteredReason: "Filtered by the local stand-in" } });
+      } else {
+        accepted.push(p);
+      }
+    }
+    this.prompts = accepted;
+
+    const total = accepted.reduce((sum, p) => sum + Math.max(0, p.weight), 0) || 1;
+    const previous = new Map(this.voices.map((v) => [v.text, v.phase]));
+    this.voices = accepted.map((p) => {
+      const hash = hashText(p.text);
+      return {
+        text: p.text,
+        gain: Math.max(0, p.weight) / total,
+        frequency: ROOT_HZ * SCALE_RATIOS[hash % SCALE_RATIOS.length],
+        pan: ((hash >> 4) % 100) / 100 * 1.4 - 0.7,
+        phase: previous.get(p.text) ?? 0,
+      };
+    });
+  }
+
+  private start() {
+    if (this.timer) return;
+    for (let i = 0; i < LEAD_CHUNKS; i++) this.sendChunk();
+    this.timer = setInterval(() => this.sendChunk(), CHUNK_SECONDS * 1000);
+  }
+
+  private halt() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private resetContext() {
+    this.beatPhase = 0;
+    for (const v of this.voices) v.phase = 0;
+  }
+
+  private sendChunk() {
+    const frames = SAMPLE_RATE * CHUNK_SECONDS;
+    const pcm = new Int16Array(frames * CHANNELS);
+    const bpm = this.config.bpm ?? 100;
+    const density = this.config.density ?? 0.5;
+    const brightness = this.config.brightness ?? 0.5;
+    const beatStep = bpm / 60 / SAMPLE_RATE;
+
+    for (let i = 0; i < frames; i++) {
+      let left = 0;
+      let right = 0;
+      for (const v of this.voices) {
+        v.phase += v.frequency / SAMPLE_RATE;
+        const tone = Math.sin(2 * Math.PI * v.phase) + brightness * 0.3 * Math.sin(4 * Math.PI * v.phase);
+        left += tone * v.gain * (1 - v.pan) * 0.5;
+        right += tone * v.gain * (1 + v.pan) * 0.5;
+      }
+      this.beatPhase = (this.beatPhase + beatStep) % 1;
+      const pulse = Math.exp(-this.beatPhase * 18) * Math.sin(2 * Math.PI * 55 * this.beatPhase) * density;
+      pcm[i * CHANNELS] = Math.max(-1, Math.min(1, (left + pulse) * 0.4)) * 32767;
+      pcm[i * CHANNELS + 1] = Math.max(-1, Math.min(1, (right + pulse) * 0.4)) * 32767;
+    }
+
+    this.send({
+      serverContent: {
+        audioChunks: [{
+          data: Buffer.from(pcm.buffer).toString("base64"),
+          mimeType: `audio/l16;rate=${SAMPLE_RATE};channels=${CHANNELS}`,
+          sourceMetadata: { clientContent: { weightedPrompts: this.prompts } },
+        }],
+      },
+    });
+  }
+
+  private send(message: object) {
+    if (this.ws.readyState === this.ws.OPEN) this.ws.send(JSON.stringify(message));
+  }
+}
+
+/** Serves stand-in sessions on `MUSIC_STAND_IN_PATH` of an existing HTTP server. */
+export function attachMusicStandIn(server: Server) {
+  const wss = new WebSocketServer({ noServer: true });
+  server.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    if (!req.url?.startsWith(MUSIC_STAND_IN_PATH)) return;
+    wss.handleUpgrade(req, socket, head, (ws) => new StandInSession(ws));
+  });
+}
@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { SceneAnalysis } from "./scene_analysis";
+import type { AnalyzerKind, Prompt, StreamSource } from "./types";
+
+/** One analysis in the session timeline, with enough to bring its vibe back. */
+export interface TimelineEntry {
+  id: string;
+  timestamp: number;
+  /** Small JPEG data URL of the analyzed frame. */
+  thumbnail: string;
+  source: StreamSource;
+  analyzer: AnalyzerKind;
+  analysis: SceneAnalysis;
+  /** The prompts and weights as returned, before any crossfade or edits. */
+  prompts: Prompt[];
+}
+
+export const MAX_TIMELINE_ENTRIES = 100;
+const THUMBNAIL_DIM = 96;
+const THUMBNAIL_QUALITY = 0.7;
+const EXPORT_FORMAT = "sonar-timeline";
+
+export function createThumbnail(source: CanvasImageSource, width: number, height: number) {
+  const scale = Math.min(1, THUMBNAIL_DIM / Math.max(width, height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  canvas.getContext("2d")?.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL("image/jpeg", THUMBNAIL_QUALITY);
+}
+
+/** Appends an entry, dropping the oldest once the timeline is full. */
+export function appendTimelineEntry(timeline: TimelineEntry[], entry: TimelineEntry) {
+  return [...timeline, entry].slice(-MAX_TIMELINE_ENTRIES);
+}
+
+export function exportTimeline(timeline: TimelineEntry[]) {
+  return JSON.stringify({ format: EXPORT_FORMAT, version: 1, exportedAt: new Date().toISOString(), entries: timeline }, null, 2);
+}
@@ -0,0 +1,119 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { parseSceneAnalysis, type SceneAnalysis } from "./scene_analysis";
+import type { Prompt } from "./types";
+
+/** An analysis that passed validation, with everything that had to be dropped or fixed on the way. */
+export interface ValidatedAnalysis {
+  analysis: SceneAnalysis;
+  rejections: string[];
+}
+
+// The budget the default template asks for: 3-5 keywords per prompt, a few prompts per analysis.
+export const MAX_PROMPT_KEYWORDS = 5;
+export const MAX_ANALYSIS_PROMPTS = 4;
+// A keyword longer than this is a sentence the engine will mostly ignore.
+const MAX_KEYWORD_WORDS = 4;
+// Share of words two prompts may have in common before the later one counts as a repeat.
+const NEAR_DUPLICATE_SIMILARITY = 0.75;
+
+/** A response that could not be turned into a usable analysis. */
+export class AnalysisValidationError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Unusable analysis: ${problems[problems.length - 1] ?? "unknown problem"}`);
+    this.name = "AnalysisValidationError";
+  }
+}
+
+/** Comparable words, so "Lo-fi, 80 bpm" and "lofi, 80bpm" match. */
+function words(text: string) {
+  const normalized = text.toLowerCase().replace(/(\d)\s*bpm/g, "$1bpm").replace(/[-']/g, "");
+  return new Set(normalized.split(/[^\p{L}\p{N}]+/u).filter(Boolean));
+}
+
+function similarity(a: Set<string>, b: Set<string>) {
+  const shared = [...a].filter((w) => b.has(w)).length;
+  const union = a.size + b.size - shared;
+  return union === 0 ? 1 : shared / union;
+}
+
+/** Reduces a prompt to at most `MAX_PROMPT_KEYWORDS` comma-separated keywords of sensible length. */
+function trimKeywords(text: string, label: string, rejections: string[]) {
+  const keywords = text.split(",").map((k) => k.trim()).filter(Boolean);
+  const short = keywords.filter((k) => k.split(/\s+/).length <= MAX_KEYWORD_WORDS);
+  if (short.length > 0 && short.length < keywords.length) rejections.push(`${label}: dropped ${keywords.length - short.length} keyword(s) longer than ${MAX_KEYWORD_WORDS} words`);
+  if (short.length > MAX_PROMPT_KEYWORDS) rejections.push(`${label}: trimmed from ${short.length} to ${MAX_PROMPT_KEYWORDS} keywords`);
+  return short.slice(0, MAX_PROMPT_KEYWORDS).join(", ");
+}
+
+function validatePrompts(entries: unknown[], rejections: string[]): Prompt[] {
+  const kept: { prompt: Prompt; words: Set<string> }[] = [];
+  entries.forEach((entry: any, i) => {
+    const label = `prompt ${i + 1}`;
+    const raw = typeof entry === "string" ? entry : entry?.text;
+    if (typeof raw !== "string") {
+      rejections.push(`${label}: rejected, not a string or {text, weight}`);
+      return;
+    }
+    const validWeight = typeof entry === "string" || (typeof entry.weight === "number" && Number.isFinite(entry.weight));
+    if (!validWeight) rejections.push(`${label}: weight is not a number, using 1`);
+    const weight: number = typeof entry === "string" || !validWeight ? 1 : entry.weight;
+    const text = trimKeywords(raw, label, rejections);
+    if (!text) {
+      rejections.push(`${label}: rejected, no usable keywords in "${raw.slice(0, 60)}"`);
+      return;
+    }
+    const promptWords = words(text);
+    const match = kept.find((k) => similarity(k.words, promptWords) >= NEAR_DUPLICATE_SIMILARITY);
+    if (match) {
+      rejections.push(`${label}: rejected, "${text}" repeats "${match.prompt.text}"`);
+      match.prompt.weight = Math.max(match.prompt.weight, weight);
+      return;
+    }
+    kept.push({ prompt: { text, weight }, words: promptWords });
+  });
+
+  if (kept.length <= MAX_ANALYSIS_PROMPTS) return kept.map((k) => k.prompt);
+  // Keep the strongest prompts, in the order the model gave them.
+  const strongest = new Set([...kept].sort((a, b) => b.prompt.weight - a.prompt.weight).slice(0, MAX_ANALYSIS_PROMPTS));
+  const dropped = kept.filter((k) => !strongest.has(k));
+  rejections.push(`dropped ${dropped.length} weakest prompt(s) beyond the limit of ${MAX_ANALYSIS_PROMPTS}: ${dropped.map((k) => `"${k.prompt.text}"`).join(", ")}`);
+  return kept.filter((k) => strongest.has(k)).map((k) => k.prompt);
+}
+
+/**
+ * Parses a model's text response into a `SceneAnalysis`, repairing what can
+ * be repaired and noting every rejection. Throws `AnalysisValidationError`
+ * when no usable prompt survives.
+ */
+export function validateSceneAnalysis(text: string): ValidatedAnalysis {
+  // Some models wrap JSON in a Markdown fence despite being asked not to.
+  const body = text.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  let json: any;
+  try {
+    json = JSON.parse(body);
+  } catch (e: any) {
+    throw new AnalysisValidationError([`response is not valid JSON (${e.message})`]);
+  }
+  if (typeof json !== "object" || json === null || Array.isArray(json)) {
+    throw new AnalysisValidationError(["response is not a JSON object"]);
+  }
+
+  const rejections: string[] = [];
+  if (typeof json.description !== "string") rejections.push("description missing, left blank");
+  if (typeof json.mood !== "string") rejections.push("mood missing, left blank");
+  if (typeof json.energy !== "number") rejections.push("energy missing, using 0.5");
+  if (typeof json.bpmMin !== "number" || typeof json.bpmMax !== "number") rejections.push("BPM range missing or incomplete");
+  if (!Array.isArray(json.prompts)) {
+    throw new AnalysisValidationError([...rejections, "prompts is missing or not an array"]);
+  }
+
+  const prompts = validatePrompts(json.prompts, rejections);
+  if (prompts.length === 0) {
+    throw new AnalysisValidationError([...rejections, "no usable prompts"]);
+  }
+  return { analysis: parseSceneAnalysis({ ...json, prompts }), rejections };
+}
@@ -0,0 +1,330 @@
+/**
+ * @fileoverview Lossless encoders for captured PCM: 16-bit WAV and FLAC.
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export type AudioExportFormat = "wav" | "flac";
+
+export const EXPORT_MIME_TYPES: Record<AudioExportFormat, string> = {
+  wav: "audio/wav",
+  flac: "audio/flac",
+};
+
+export interface AudioTags {
+  title?: string;
+  comment?: string;
+  date?: string;
+}
+
+const ENCODER_NAME = "Sonar";
+const BITS_PER_SAMPLE = 16;
+
+function toInt16(sample: number) {
+  const s = Math.max(-1, Math.min(1, sample));
+  return s < 0 ? Math.round(s * 0x8000) : Math.round(s * 0x7fff);
+}
+
+export function encodeAudio(format: AudioExportFormat, channels: Float32Array[], sampleRate: number, tags: AudioTags = {}): Blob {
+  return format === "flac" ? encodeFlac(channels, sampleRate, tags) : encodeWav(channels, sampleRate, tags);
+}
+
+// ---------------------------------------------------------------------------
+// WAV
+// ---------------------------------------------------------------------------
+
+function buildInfoChunk(tags: AudioTags): Uint8Array {
+  const entries: [string, string][] = [["ISFT", ENCODER_NAME]];
+  if (tags.title) entries.push(["INAM", tags.title]);
+  if (tags.comment) entries.push(["ICMT", tags.comment]);
+  if (tags.date) entries.push(["ICRD", tags.date]);
+
+  const encoder = new TextEncoder();
+  const fields = entries.map(([id, value]) => {
+    const text = encoder.encode(value + "\0");
+    const padded = new Uint8Array(8 + text.length + (text.length % 2));
+    const view = new DataView(padded.buffer);
+    for (let i = 0; i < 4; i++) padded[i] = id.charCodeAt(i);
+    view.setUint32(4, text.length, true);
+    padded.set(text, 8);
+    return padded;
+  });
+
+  const size = 4 + fields.reduce((sum, f) => sum + f.length, 0);
+  const chunk = new Uint8Array(8 + size);
+  const view = new DataView(chunk.buffer);
+  chunk.set([0x4c, 0x49, 0x53, 0x54], 0); // "LIST"
+  view.setUint32(4, size, true);
+  chunk.set([0x49, 0x4e, 0x46, 0x4f], 8); // "INFO"
+  let offset = 12;
+  for (const f of fields) {
+    chunk.set(f, offset);
+    offset += f.length;
+  }
+  return chunk;
+}
+
+export function encodeWav(channels: Float32Array[], sampleRate: number, tags: AudioTags = {}): Blob {
+  const numChannels = channels.length;
+  const frames = channels[0]?.length ?? 0;
+  const blockAlign = numChannels * (BITS_PER_SAMPLE / 8);
+  const dataSize = frames * blockAlign;
+  const info = buildInfoChunk(tags);
+
+  const header = new ArrayBuffer(36);
+  const view = new DataView(header);
+  const writeId = (offset: number, id: string) => {
+    for (let i = 0; i < 4; i++) view.setUint8(offset + i, id.charCodeAt(i));
+  };
+  writeId(0, "RIFF");
+  view.setUint32(4, 4 + 24 + info.length + 8 + dataSize, true);
+  writeId(8, "WAVE");
+  writeId(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, BITS_PER_SAMPLE, true);
+
+  const dataHeader = new DataView(new ArrayBuffer(8));
+  "data".split("").forEach((c, i) => dataHeader.setUint8(i, c.charCodeAt(0)));
+  dataHeader.setUint32(4, dataSize, true);
+
+  const pcm = new Int16Array(frames * numChannels);
+  for (let i = 0; i < frames; i++) {
+    for (let ch = 0; ch < numChannels; ch++) {
+      pcm[i * numChannels + ch] = toInt16(channels[ch][i]);
+    }
+  }
+
+  return new Blob([header, info, dataHeader.buffer, pcm.buffer], { type: EXPORT_MIME_TYPES.wav });
+}
+
+// ---------------------------------------------------------------------------
+// FLAC
+// ---------------------------------------------------------------------------
+
+const FLAC_BLOCK_SIZE = 4096;
+const MAX_FIXED_ORDER = 4;
+const MAX_RICE_PARAM = 14;
+
+class BitWriter {
+  private bytes = new Uint8Array(1 << 16);
+  private length = 0;
+  private acc = 0;
+  private accBits = 0;
+
+  write(value: number, bits: number) {
+    // Split wide fields so the accumulator never holds more than 32 bits.
+    if (bits > 24) {
+      this.write(Math.floor(value / 2 ** 24), bits - 24);
+      value %= 2 ** 24;
+      bits = 24;
+    }
+    this.acc = (this.acc << bits) | (value & ((1 << bits) - 1));
+    this.accBits += bits;
+    while (this.accBits >= 8) {
+      this.accBits -= 8;
+      this.pushByte((this.acc >>> this.accBits) & 0xff);
+    }
+    this.acc &= (1 << this.accBits) - 1;
+  }
+
+  writeSigned(value: number, bits: number) {
+    this.write(value < 0 ? value + 2 ** bits : value, bits);
+  }
+
+  writeUnary(zeros: number) {
+    for (; zeros > 24; zeros -= 24) this.write(0, 24);
+    this.write(1, zeros + 1);
+  }
+
+  alignToByte() {
+    if (this.accBits > 0) this.write(0, 8 - this.accBits);
+  }
+
+  get byteLength() {
+    return this.length;
+  }
+
+  slice(start: number, end = this.length) {
+    return this.bytes.subarray(start, end);
+  }
+
+  toUint8Array() {
+    return this.bytes.slice(0, this.length);
+  }
+
+  private pushByte(byte: number) {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = byte;
+  }
+}
+
+function crc8(data: Uint8Array) {
+  let crc = 0;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let i = 0; i < 8; i++) crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+  }
+  return crc;
+}
+
+function crc16(data: Uint8Array) {
+  let crc = 0;
+  for (const byte of data) {
+    crc ^= byte << 8;
+    for (let i = 0; i < 8; i++) crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xffff : (crc << 1) & 0xffff;
+  }
+  return crc;
+}
+
+/** FLAC's UTF-8-like variable length integer, used for frame numbers. */
+function writeUtf8Int(w: BitWriter, value: number) {
+  if (value < 0x80) {
+    w.write(value, 8);
+    return;
+  }
+  let extra = 1;
+  while (value >= 2 ** (6 + 5 * extra)) extra++;
+  const lead = (0xff00 >> (extra + 1)) & 0xff;
+  w.write(lead | Math.floor(value / 2 ** (6 * extra)), 8);
+  for (let i = extra - 1; i >= 0; i--) {
+    w.write(0x80 | (Math.floor(value / 2 ** (6 * i)) & 0x3f), 8);
+  }
+}
+
+function fixedResidual(samples: Int32Array, order: number): Int32Array {
+  const residual = new Int32Array(samples.length - order);
+  for (let i = order; i < samples.length; i++) {
+    const s = samples;
+    let predicted = 0;
+    switch (order) {
+      case 1: predicted = s[i - 1]; break;
+      case 2: predicted = 2 * s[i - 1] - s[i - 2]; break;
+      case 3: predicted = 3 * s[i - 1] - 3 * s[i - 2] + s[i - 3]; break;
+      case 4: predicted = 4 * s[i - 1] - 6 * s[i - 2] + 4 * s[i - 3] - s[i - 4]; break;
+    }
+    residual[i - order] = s[i] - predicted;
+  }
+  return residual;
+}
+
+function riceParam(residual: Int32Array) {
+  if (residual.length === 0) return 0;
+  let sum = 0;
+  for (const r of residual) sum += r < 0 ? -2 * r - 1 : 2 * r;
+  const mean = sum / residual.length;
+  return mean < 1 ? 0 : Math.min(MAX_RICE_PARAM, Math.floor(Math.log2(mean)));
+}
+
+function writeFixedSubframe(w: BitWriter, samples: Int32Array, bps: number) {
+  const maxOrder = Math.min(MAX_FIXED_ORDER, samples.length - 1);
+  let best = { order: 0, residual: fixedResidual(samples, 0), cost: Infinity };
+  for (let order = 0; order <= maxOrder; order++) {
+    const residual = fixedResidual(samples, order);
+    let cost = 0;
+    for (const r of residual) cost += Math.abs(r);
+    if (cost < best.cost) best = { order, residual, cost };
+  }
+
+  w.write(0, 1);
+  w.write(0b001000 | best.order, 6); // SUBFRAME_FIXED
+  w.write(0, 1); // no wasted bits
+  for (let i = 0; i < best.order; i++) w.writeSigned(samples[i], bps);
+
+  const k = riceParam(best.residual);
+  w.write(0, 2); // RICE partition coding, 4-bit parameters
+  w.write(0, 4); // partition order 0
+  w.write(k, 4);
+  for (const r of best.residual) {
+    const folded = r < 0 ? -2 * r - 1 : 2 * r;
+    w.writeUnary(Math.floor(folded / 2 ** k));
+    if (k > 0) w.write(folded % 2 ** k, k);
+  }
+}
+
+function writeVorbisComment(w: BitWriter, tags: AudioTags, isLast: boolean) {
+  const encoder = new TextEncoder();
+  const comments = [
+    tags.title && `TITLE=${tags.title}`,
+    tags.comment && `COMMENT=${tags.comment}`,
+    tags.date && `DATE=${tags.date}`,
+    `ENCODER=${ENCODER_NAME}`,
+  ].filter((c): c is string => !!c).map((c) => encoder.encode(c));
+  const vendor = encoder.encode(ENCODER_NAME);
+
+  const size = 4 + vendor.length + 4 + comments.reduce((sum, c) => sum + 4 + c.length, 0);
+  const writeLE32 = (value: number) => {
+    for (let i = 0; i < 4; i++) w.write((value >>> (8 * i)) & 0xff, 8);
+  };
+
+  w.write(isLast ? 1 : 0, 1);
+  w.write(4, 7); // VORBIS_COMMENT
+  w.write(size, 24);
+  writeLE32(vendor.length);
+  vendor.forEach((b) => w.write(b, 8));
+  writeLE32(comments.length);
+  for (const c of comments) {
+    writeLE32(c.length);
+    c.forEach((b) => w.write(b, 8));
+  }
+}
+
+export function encodeFlac(channels: Float32Array[], sampleRate: number, tags: AudioTags = {}): Blob {
+  const numChannels = channels.length;
+  const frames = channels[0]?.length ?? 0;
+  const w = new BitWriter();
+
+  "fLaC".split("").forEach((c) => w.write(c.charCodeAt(0), 8));
+
+  // STREAMINFO
+  w.write(0, 1);
+  w.write(0, 7);
+  w.write(34, 24);
+  w.write(FLAC_BLOCK_SIZE, 16); // min block size, excluding the last block
+  w.write(FLAC_BLOCK_SIZE, 16);
+  w.write(0, 24); // min frame size unknown
+  w.write(0, 24); // max frame size unknown
+  w.write(sampleRate, 20);
+  w.write(numChannels - 1, 3);
+  w.write(BITS_PER_SAMPLE - 1, 5);
+  w.write(frames, 36);
+  for (let i = 0; i < 16; i++) w.write(0, 8); // MD5 not computed
+
+  writeVorbisComment(w, tags, true);
+
+  for (let start = 0, frameNumber = 0; start < frames; start += FLAC_BLOCK_SIZE, frameNumber++) {
+    const blockSize = Math.min(FLAC_BLOCK_SIZE, frames - start);
+    const frameStart = w.byteLength;
+
+    w.write(0b11111111111110, 14);
+    w.write(0, 1); // reserved
+    w.write(0, 1); // fixed block size stream
+    w.write(blockSize === FLAC_BLOCK_SIZE ? 0b1100 : 0b0111, 4);
+    w.write(0b0000, 4); // sample rate from STREAMINFO
+    w.write(numChannels - 1, 4); // independent channels
+    w.write(0b100, 3); // 16 bits per sample
+    w.write(0, 1);
+    writeUtf8Int(w, frameNumber);
+    if (blockSize !== FLAC_BLOCK_SIZE) w.write(blockSize - 1, 16);
+    w.write(crc8(w.slice(frameStart)), 8);
+
+    for (let ch = 0; ch < numChannels; ch++) {
+      const samples = new Int32Array(blockSize);
+      for (let i = 0; i < blockSize; i++) samples[i] = toInt16(channels[ch][start + i]);
+      writeFixedSubframe(w, samples, BITS_PER_SAMPLE);
+    }
+
+    w.alignToByte();
+    w.write(crc16(w.slice(frameStart)), 16);
+  }
+
+  return new Blob([w.toUint8Array()], { type: EXPORT_MIME_TYPES.flac });
+}
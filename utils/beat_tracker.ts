@@ -0,0 +1,266 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export interface Onset {
+  /** AudioContext time of the onset. */
+  time: number;
+  /** Spectral flux relative to the adaptive threshold; 1 is just over it. */
+  strength: number;
+}
+
+export interface Beat {
+  /** AudioContext time of the beat. */
+  time: number;
+  bpm: number;
+  /** Beats since tracking (re)started. */
+  index: number;
+  /** 0–1; how clearly periodic the recent onsets are. */
+  confidence: number;
+}
+
+export interface TempoEstimate {
+  bpm: number;
+  confidence: number;
+}
+
+const FRAME_SIZE = 1024;
+const HOP_SIZE = 512;
+const HISTORY_SECONDS = 8;
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+// Tempo candidates are weighted towards this, an octave either side (after Ellis, 2007).
+const PREFERRED_BPM = 120;
+const TEMPO_UPDATE_SECONDS = 0.5;
+const THRESHOLD_WINDOW_SECONDS = 0.5;
+const THRESHOLD_MULTIPLIER = 1.4;
+const MIN_ONSET_GAP_SECONDS = 0.08;
+// Below this the onset envelope isn't periodic enough to trust a beat grid.
+const MIN_CONFIDENCE = 0.15;
+
+/** In-place iterative radix-2 FFT. */
+function fft(re: Float32Array, im: Float32Array) {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const step = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const wr = Math.cos(step * k);
+        const wi = Math.sin(step * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tr = re[b] * wr - im[b] * wi;
+        const ti = re[b] * wi + im[b] * wr;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+      }
+    }
+  }
+}
+
+/**
+ * Onset, tempo and beat-phase tracking from streamed PCM. Onsets come from
+ * log-compressed spectral flux with an adaptive threshold; tempo from the
+ * autocorrelation of the flux envelope; phase from a comb over the same
+ * envelope. All times are on the AudioContext clock.
+ */
+export class BeatTracker {
+  private readonly frameRate: number;
+  private readonly window = new Float32Array(FRAME_SIZE);
+  private readonly frame = new Float32Array(FRAME_SIZE);
+  private readonly re = new Float32Array(FRAME_SIZE);
+  private readonly im = new Float32Array(FRAME_SIZE);
+  private previousSpectrum = new Float32Array(FRAME_SIZE / 2);
+  private readonly historyLength: number;
+
+  private frameFill = 0;
+  private envelope: number[] = [];
+  private envelopeTimes: number[] = [];
+  private framesSinceTempo = 0;
+  private lastOnsetTime = -Infinity;
+
+  private period = 0; // seconds per beat; 0 until a tempo is found
+  private confidence = 0;
+  private anchor = 0; // time of a beat on the current grid
+
+  constructor(public readonly sampleRate: number) {
+    this.frameRate = sampleRate / HOP_SIZE;
+    this.historyLength = Math.round(HISTORY_SECONDS * this.frameRate);
+    for (let i = 0; i < FRAME_SIZE; i++) this.window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / FRAME_SIZE);
+  }
+
+  public get tempo(): TempoEstimate | null {
+    return this.period > 0 ? { bpm: 60 / this.period, confidence: this.confidence } : null;
+  }
+
+  /** The first beat on the current grid strictly after `time`, or null without a tempo. */
+  public nextBeat(time: number): number | null {
+    if (this.period === 0) return null;
+    return this.anchor + (Math.floor((time - this.anchor) / this.period) + 1) * this.period;
+  }
+
+  public reset() {
+    this.frameFill = 0;
+    this.previousSpectrum.fill(0);
+    this.envelope = [];
+    this.envelopeTimes = [];
+    this.framesSinceTempo = 0;
+    this.lastOnsetTime = -Infinity;
+    this.period = 0;
+    this.confidence = 0;
+  }
+
+  /**
+   * Analyses a block of planar PCM whose last sample plays at `endTime`.
+   * Returns the onsets detected in it.
+   */
+  public push(channels: Float32Array[], endTime: number): Onset[] {
+    const onsets: Onset[] = [];
+    const length = channels[0]?.length ?? 0;
+    for (let i = 0; i < length; i++) {
+      let sample = 0;
+      for (const channel of channels) sample += channel[i];
+      this.frame[this.frameFill++] = sample / channels.length;
+      if (this.frameFill < FRAME_SIZE) continue;
+
+      // Onsets are attributed to the middle of the analysis window.
+      const frameTime = endTime - (length - 1 - i + FRAME_SIZE / 2) / this.sampleRate;
+      const onset = this.analyseFrame(frameTime);
+      if (onset) onsets.push(onset);
+      this.frame.copyWithin(0, HOP_SIZE);
+      this.frameFill = FRAME_SIZE - HOP_SIZE;
+    }
+    return onsets;
+  }
+
+  private analyseFrame(time: number): Onset | null {
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      this.re[i] = this.frame[i] * this.window[i];
+      this.im[i] = 0;
+    }
+    fft(this.re, this.im);
+
+    let flux = 0;
+    const spectrum = new Float32Array(FRAME_SIZE / 2);
+    for (let k = 1; k < FRAME_SIZE / 2; k++) {
+      spectrum[k] = Math.log1p(100 * Math.hypot(this.re[k], this.im[k]));
+      flux += Math.max(0, spectrum[k] - this.previousSpectrum[k]);
+    }
+    this.previousSpectrum = spectrum;
+
+    this.envelope.push(flux);
+    this.envelopeTimes.push(time);
+    if (this.envelope.length > this.historyLength) {
+      this.envelope.shift();
+      this.envelopeTimes.shift();
+    }
+
+    if (++this.framesSinceTempo >= TEMPO_UPDATE_SECONDS * this.frameRate) {
+      this.framesSinceTempo = 0;
+      this.updateTempo();
+    }
+    return this.pickOnset();
+  }
+
+  /** Checks whether the previous frame was a peak above the adaptive threshold. */
+  private pickOnset(): Onset | null {
+    const n = this.envelope.length;
+    const windowFrames = Math.round(THRESHOLD_WINDOW_SECONDS * this.frameRate);
+    if (n < 3) return null;
+
+    const candidate = this.envelope[n - 2];
+    if (candidate < this.envelope[n - 3] || candidate < this.envelope[n - 1]) return null;
+
+    const recent = this.envelope.slice(Math.max(0, n - 1 - windowFrames), n - 1);
+    const mean = recent.reduce((a, b) => a + b, 0) / recent.length;
+    const threshold = mean * THRESHOLD_MULTIPLIER + 1e-3;
+    const time = this.envelopeTimes[n - 2];
+    if (candidate <= threshold || time - this.lastOnsetTime < MIN_ONSET_GAP_SECONDS) return null;
+
+    this.lastOnsetTime = time;
+    return { time, strength: candidate / threshold };
+  }
+
+  private updateTempo() {
+    const env = this.envelope;
+    const n = env.length;
+    const minLag = Math.floor((60 / MAX_BPM) * this.frameRate);
+    const maxLag = Math.ceil((60 / MIN_BPM) * this.frameRate);
+    if (n < maxLag * 2) return;
+
+    const mean = env.reduce((a, b) => a + b, 0) / n;
+    const centered = env.map((v) => v - mean);
+    const acf = (lag: number) => {
+      let sum = 0;
+      for (let i = lag; i < n; i++) sum += centered[i] * centered[i - lag];
+      return sum / (n - lag);
+    };
+    const energy = acf(0);
+    if (energy <= 0) return;
+
+    let bestLag = 0;
+    let bestScore = -Infinity;
+    const scores = new Map<number, number>();
+    for (let lag = minLag - 1; lag <= maxLag + 1; lag++) {
+      const value = acf(lag);
+      scores.set(lag, value);
+      if (lag < minLag || lag > maxLag) continue;
+      const octaves = Math.log2((60 * this.frameRate) / lag / PREFERRED_BPM);
+      const score = value * Math.exp(-0.5 * octaves * octaves);
+      if (score > bestScore) {
+        bestScore = score;
+        bestLag = lag;
+      }
+    }
+
+    // Parabolic interpolation around the peak for sub-frame precision.
+    const [a, b, c] = [scores.get(bestLag - 1)!, scores.get(bestLag)!, scores.get(bestLag + 1)!];
+    const denominator = a - 2 * b + c;
+    const offset = denominator !== 0 ? Math.max(-0.5, Math.min(0.5, (0.5 * (a - c)) / denominator)) : 0;
+    const confidence = Math.max(0, b / energy);
+    if (confidence < MIN_CONFIDENCE) {
+      this.confidence = confidence;
+      return;
+    }
+
+    const period = (bestLag + offset) / this.frameRate;
+    // Small drifts are smoothed; anything else is a genuine tempo change.
+    const close = this.period > 0 && Math.abs(period - this.period) / this.period < 0.04;
+    this.period = close ? this.period * 0.7 + period * 0.3 : period;
+    this.confidence = confidence;
+    this.anchor = this.findPhase(bestLag + offset);
+  }
+
+  /** Time of the most recent beat, found by combing the envelope at `lag` frames. */
+  private findPhase(lag: number) {
+    const env = this.envelope;
+    const n = env.length;
+    const beats = Math.floor(n / lag) - 1;
+    let bestShift = 0;
+    let bestScore = -Infinity;
+    for (let shift = 0; shift < Math.ceil(lag); shift++) {
+      let score = 0;
+      for (let k = 0; k < beats; k++) {
+        const index = n - 1 - shift - Math.round(k * lag);
+        if (index >= 0) score += env[index];
+      }
+      if (score > bestScore) {
+        bestScore = score;
+        bestShift = shift;
+      }
+    }
+    return this.envelopeTimes[n - 1 - bestShift];
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { PREFERRED_STREAM_PARAMS } from "./constants";
+import type { FacingMode } from "./types";
+
+export interface CameraResolution {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+}
+
+/** The user's camera choice. Stored in localStorage. */
+export interface CameraSettings {
+  /** null follows the facing mode, as on phones. */
+  deviceId: string | null;
+  /** Kept so a device can be recognized if it comes back under a new id. */
+  label: string | null;
+  /** A `CAMERA_RESOLUTIONS` id, or null for the URL's stream size. */
+  resolution: string | null;
+  /** null lets the camera pick. */
+  frameRate: number | null;
+  /** null mirrors front-facing cameras only. */
+  mirror: boolean | null;
+}
+
+export const CAMERA_RESOLUTIONS: CameraResolution[] = [
+  { id: "480p", label: "640×480", width: 640, height: 480 },
+  { id: "720p", label: "1280×720", width: 1280, height: 720 },
+  { id: "1080p", label: "1920×1080", width: 1920, height: 1080 },
+  { id: "4k", label: "3840×2160", width: 3840, height: 2160 },
+];
+
+export const CAMERA_FRAME_RATES = [15, 24, 30, 60];
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
+  deviceId: null,
+  label: null,
+  resolution: null,
+  frameRate: null,
+  mirror: null,
+};
+
+export async function listCameras() {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  // Before permission is granted, browsers list cameras without ids or labels.
+  return devices.filter((d) => d.kind === "videoinput" && d.deviceId);
+}
+
+/** The chosen camera among those connected, matched by id and then by label. */
+export function findCamera(cameras: MediaDeviceInfo[], settings: CameraSettings) {
+  if (!settings.deviceId) return undefined;
+  return cameras.find((d) => d.deviceId === settings.deviceId) ?? (settings.label ? cameras.find((d) => d.label === settings.label) : undefined);
+}
+
+/**
+ * Constraints for `getUserMedia`. Size and frame rate are only ideals, so a
+ * camera that can't meet them still opens; the device itself is exact.
+ */
+export function cameraConstraints(settings: CameraSettings, deviceId: string | undefined, facingMode: FacingMode): MediaTrackConstraints {
+  const resolution = CAMERA_RESOLUTIONS.find((r) => r.id === settings.resolution);
+  return {
+    ...(resolution ? { width: { ideal: resolution.width }, height: { ideal: resolution.height } } : PREFERRED_STREAM_PARAMS),
+    ...(settings.frameRate ? { frameRate: { ideal: settings.frameRate } } : {}),
+    ...(deviceId ? { deviceId: { exact: deviceId } } : { facingMode }),
+  };
+}
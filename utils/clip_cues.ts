@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { SceneAnalysis } from "./scene_analysis";
+import type { AnalyzerKind } from "./types";
+
+/**
+ * An analysis pinned to a moment of a video clip. The music follows the cue
+ * governing the playhead, so seeking or replaying brings back the same vibe
+ * without analyzing the frame again.
+ */
+export interface ClipCue {
+  id: string;
+  /** Clip time in seconds of the analyzed frame. */
+  time: number;
+  analyzer: AnalyzerKind;
+  analysis: SceneAnalysis;
+}
+
+// A new cue this close to an existing one replaces it rather than stacking up.
+const CUE_MERGE_SECONDS = 0.5;
+
+/** Inserts a cue in time order, replacing any cue within `CUE_MERGE_SECONDS` of it. */
+export function addClipCue(cues: ClipCue[], cue: ClipCue) {
+  return [...cues.filter((c) => Math.abs(c.time - cue.time) >= CUE_MERGE_SECONDS), cue].sort((a, b) => a.time - b.time);
+}
+
+/** The latest cue at or before `time`, which is the one the music should follow. */
+export function clipCueAt(cues: ClipCue[], time: number): ClipCue | null {
+  let current: ClipCue | null = null;
+  for (const cue of cues) {
+    if (cue.time > time) break;
+    current = cue;
+  }
+  return current;
+}
+
+/** Whether any cue falls in `[start, end)`. */
+export function hasCueBetween(cues: ClipCue[], start: number, end: number) {
+  return cues.some((c) => c.time >= start && c.time < end);
+}
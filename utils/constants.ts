@@ -4,6 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import { Scale } from "@google/genai";
 import type { IntervalPreset } from "./types";
 import { urlargs } from "./urlargs";
 
@@ -11,6 +12,7 @@ export const MAX_CAPTURE_DIM = 256;
 export const IMAGE_MIME_TYPE = "image/png";
 // Using 2.5 Flash for its extreme stability and generous rate limits
 export const GEMINI_MODEL = "gemini-2.5-flash-latest";
+export const LYRIA_MODEL = "lyria-realtime-exp";
 
 export const INTERVAL_PRESETS: IntervalPreset[] = [
   {
@@ -31,11 +33,71 @@ export const INTERVAL_PRESETS: IntervalPreset[] = [
     labelValue: "45s",
     labelSub: "SLOW",
   },
+  {
+    captureSeconds: 90,
+    crossfadeSeconds: 6,
+    labelValue: "Δ",
+    labelSub: "SCENE",
+    sceneChange: { threshold: 0.25, minSeconds: 8 },
+  },
 ];
 
+// How often the scene-change preset fingerprints the live view.
+export const SCENE_CHECK_INTERVAL_MS = 250;
+
+// Captures wait this long at most for analysis quota before the local analyzer stands in.
+export const MAX_QUOTA_WAIT_MS = 15000;
+
 export const DEFAULT_INTERVAL_PRESET = INTERVAL_PRESETS[0];
 
 export const PREFERRED_STREAM_PARAMS = {
   width: { ideal: urlargs.streamWidth },
   height: { ideal: urlargs.streamHeight },
 };
+
+export const ENGINE_CONFIG_STORAGE_KEY = "sonar.engineConfig";
+export const CAPTURE_FORMAT_STORAGE_KEY = "sonar.captureFormat";
+export const CAPTURE_DURATION_STORAGE_KEY = "sonar.captureDuration";
+export const MASTER_SETTINGS_STORAGE_KEY = "sonar.masterSettings";
+export const AUTO_GAIN_STORAGE_KEY = "sonar.autoGain";
+export const MOTION_SETTINGS_STORAGE_KEY = "sonar.motionSettings";
+export const VISION_PROVIDER_STORAGE_KEY = "sonar.visionProvider";
+export const TEMPLATE_STORAGE_KEY = "sonar.promptTemplate";
+export const STYLE_HINT_STORAGE_KEY = "sonar.styleHint";
+export const TEMPORAL_CONTEXT_STORAGE_KEY = "sonar.temporalContext";
+export const REGION_STORAGE_KEY = "sonar.regions";
+export const QUOTA_STORAGE_KEY = "sonar.quota";
+export const QUOTA_USAGE_STORAGE_KEY = "sonar.quotaUsage";
+export const CAMERA_STORAGE_KEY = "sonar.camera";
+
+/** Vibe capture lengths in seconds; 0 records until stopped by hand. */
+export const CAPTURE_DURATIONS: { seconds: number; label: string }[] = [
+  { seconds: 60, label: "1m" },
+  { seconds: 180, label: "3m" },
+  { seconds: 300, label: "5m" },
+  { seconds: 600, label: "10m" },
+  { seconds: 0, label: "∞" },
+];
+
+export const DEFAULT_CAPTURE_DURATION = 300;
+
+// Motion modulation: frames are analyzed every tick, but generation config is
+// only resent when a parameter moves by a full step, at most once per interval.
+export const MOTION_TICK_MS = 100;
+export const MODULATION_CONFIG_STEP = 0.03;
+export const MODULATION_CONFIG_INTERVAL_MS = 1000;
+
+export const SCALE_OPTIONS: { value: Scale; label: string }[] = [
+  { value: Scale.C_MAJOR_A_MINOR, label: "C maj / A min" },
+  { value: Scale.D_FLAT_MAJOR_B_FLAT_MINOR, label: "D♭ maj / B♭ min" },
+  { value: Scale.D_MAJOR_B_MINOR, label: "D maj / B min" },
+  { value: Scale.E_FLAT_MAJOR_C_MINOR, label: "E♭ maj / C min" },
+  { value: Scale.E_MAJOR_D_FLAT_MINOR, label: "E maj / C♯ min" },
+  { value: Scale.F_MAJOR_D_MINOR, label: "F maj / D min" },
+  { value: Scale.G_FLAT_MAJOR_E_FLAT_MINOR, label: "G♭ maj / E♭ min" },
+  { value: Scale.G_MAJOR_E_MINOR, label: "G maj / E min" },
+  { value: Scale.A_FLAT_MAJOR_F_MINOR, label: "A♭ maj / F min" },
+  { value: Scale.A_MAJOR_G_FLAT_MINOR, label: "A maj / F♯ min" },
+  { value: Scale.B_FLAT_MAJOR_G_MINOR, label: "B♭ maj / G min" },
+  { value: Scale.B_MAJOR_A_FLAT_MINOR, label: "B maj / G♯ min" },
+];
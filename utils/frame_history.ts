@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export interface TemporalContextSettings {
+  /** Frames per analysis, including the current one; 1 sends a single snapshot. */
+  frames: number;
+  /** Seconds between sampled frames. */
+  spacingSeconds: number;
+  /** Tile the frames into one image instead of sending them separately. */
+  contactSheet: boolean;
+}
+
+export const DEFAULT_TEMPORAL_CONTEXT: TemporalContextSettings = {
+  frames: 3,
+  spacingSeconds: 2,
+  contactSheet: false,
+};
+
+export const MAX_CONTEXT_FRAMES = 6;
+// Earlier frames only need to show what changed, so they go out as JPEG.
+export const CONTEXT_FRAME_MIME_TYPE = "image/jpeg";
+const FRAME_DIM = 192;
+const SHEET_TILE_DIM = 192;
+const SHEET_GAP = 4;
+
+export interface SampledFrame {
+  canvas: HTMLCanvasElement;
+  /** `performance.now()` when the frame was sampled. */
+  time: number;
+}
+
+/**
+ * Ring buffer of recent downscaled frames, so an analysis can see how the
+ * view got to where it is. Canvases are reused as slots are overwritten.
+ */
+export class FrameHistory {
+  private readonly slots: SampledFrame[] = [];
+  private next = 0;
+
+  constructor(private readonly capacity = MAX_CONTEXT_FRAMES) {}
+
+  public get size() {
+    return this.slots.length;
+  }
+
+  public push(source: CanvasImageSource, width: number, height: number, time = performance.now()) {
+    const slot = this.slots[this.next] ?? { canvas: document.createElement("canvas"), time };
+    const scale = Math.min(1, FRAME_DIM / Math.max(width, height));
+    slot.canvas.width = Math.round(width * scale);
+    slot.canvas.height = Math.round(height * scale);
+    slot.canvas.getContext("2d")?.drawImage(source, 0, 0, slot.canvas.width, slot.canvas.height);
+    slot.time = time;
+    this.slots[this.next] = slot;
+    this.next = (this.next + 1) % this.capacity;
+  }
+
+  /** Up to `count` of the most recent frames, oldest first. */
+  public recent(count: number): SampledFrame[] {
+    const ordered = [...this.slots.slice(this.next), ...this.slots.slice(0, this.next)];
+    return count > 0 ? ordered.slice(-count) : [];
+  }
+
+  public clear() {
+    this.slots.length = 0;
+    this.next = 0;
+  }
+}
+
+export interface SheetFrame {
+  source: CanvasImageSource;
+  width: number;
+  height: number;
+}
+
+/** Tiles frames left to right, top to bottom, in a grid as close to square as fits. */
+export function createContactSheet(frames: SheetFrame[], mimeType: string) {
+  const columns = Math.ceil(Math.sqrt(frames.length));
+  const rows = Math.ceil(frames.length / columns);
+  const canvas = document.createElement("canvas");
+  canvas.width = columns * SHEET_TILE_DIM + (columns - 1) * SHEET_GAP;
+  canvas.height = rows * SHEET_TILE_DIM + (rows - 1) * SHEET_GAP;
+  const ctx = canvas.getContext("2d")!;
+  ctx.fillStyle = "black";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  frames.forEach(({ source, width, height }, i) => {
+    const x = (i % columns) * (SHEET_TILE_DIM + SHEET_GAP);
+    const y = Math.floor(i / columns) * (SHEET_TILE_DIM + SHEET_GAP);
+    // Letterboxed so every tile keeps its aspect ratio.
+    const scale = Math.min(SHEET_TILE_DIM / width, SHEET_TILE_DIM / height);
+    const w = width * scale, h = height * scale;
+    ctx.drawImage(source, x + (SHEET_TILE_DIM - w) / 2, y + (SHEET_TILE_DIM - h) / 2, w, h);
+  });
+  return canvas.toDataURL(mimeType);
+}
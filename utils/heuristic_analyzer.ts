@@ -0,0 +1,162 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { SCALE_OPTIONS } from "./constants";
+import type { SceneAnalysis } from "./scene_analysis";
+
+export interface ImageFeatures {
+  /** Mean luma, 0–1. */
+  brightness: number;
+  /** Mean HSV saturation, 0–1. */
+  saturation: number;
+  /** Saturation-weighted share of each 30° hue sector, summing to 1 (or all 0 for a grey image). */
+  hueSectors: number[];
+  /** Fraction of pixels on a strong Sobel edge, 0–1. */
+  edgeDensity: number;
+}
+
+const WIDTH = 64;
+const HEIGHT = 48;
+const HUE_SECTORS = 12;
+const EDGE_THRESHOLD = 0.25;
+// Below this mean saturation the image is treated as monochrome.
+const GREY_SATURATION = 0.12;
+
+const HUE_NAMES = ["red", "orange", "yellow", "lime", "green", "teal", "cyan", "azure", "blue", "violet", "magenta", "rose"];
+
+// Instruments per hue family, warm to cool; monochrome scenes get their own.
+const WARM_INSTRUMENTS = ["Rhodes", "Brass Section", "Warm Bass"];
+const GREEN_INSTRUMENTS = ["Acoustic Guitar", "Marimba", "Flute"];
+const COOL_INSTRUMENTS = ["Synth Pads", "Felt Piano", "Glass Bells"];
+const PURPLE_INSTRUMENTS = ["Analog Synth", "Arpeggiator", "Vocoder"];
+const GREY_INSTRUMENTS = ["Piano", "Cello", "Tape Hiss"];
+
+const STYLES_BY_ENERGY = [
+  ["Ambient", "Drone", "Minimal"],
+  ["Lo-fi", "Downtempo", "Trip Hop"],
+  ["Nu Disco", "Deep House", "Synthwave"],
+  ["Techno", "Breakbeat", "Drum and Bass"],
+];
+
+function rgbToHsv(r: number, g: number, b: number): [number, number, number] {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const delta = max - min;
+  let hue = 0;
+  if (delta > 0) {
+    if (max === r) hue = ((g - b) / delta) % 6;
+    else if (max === g) hue = (b - r) / delta + 2;
+    else hue = (r - g) / delta + 4;
+    hue = (hue * 60 + 360) % 360;
+  }
+  return [hue, max === 0 ? 0 : delta / max, max];
+}
+
+/** Reads a frame's color, saturation, hue and edge statistics from a 64×48 thumbnail. */
+export function extractImageFeatures(source: CanvasImageSource, canvas = document.createElement("canvas")): ImageFeatures {
+  canvas.width = WIDTH;
+  canvas.height = HEIGHT;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true })!;
+  ctx.drawImage(source, 0, 0, WIDTH, HEIGHT);
+  const { data } = ctx.getImageData(0, 0, WIDTH, HEIGHT);
+
+  const pixels = WIDTH * HEIGHT;
+  const luma = new Float32Array(pixels);
+  const hueSectors = new Array(HUE_SECTORS).fill(0);
+  let brightness = 0, saturation = 0;
+  for (let i = 0; i < pixels; i++) {
+    const r = data[i * 4] / 255, g = data[i * 4 + 1] / 255, b = data[i * 4 + 2] / 255;
+    luma[i] = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    brightness += luma[i];
+    const [h, s, v] = rgbToHsv(r, g, b);
+    saturation += s;
+    // Dark pixels have unreliable hue, so their vote is scaled down by value too.
+    hueSectors[Math.floor(h / (360 / HUE_SECTORS)) % HUE_SECTORS] += s * v;
+  }
+  const hueTotal = hueSectors.reduce((a, b) => a + b, 0);
+
+  let edges = 0;
+  for (let y = 1; y < HEIGHT - 1; y++) {
+    for (let x = 1; x < WIDTH - 1; x++) {
+      const at = (dx: number, dy: number) => luma[(y + dy) * WIDTH + x + dx];
+      const gx = at(1, -1) + 2 * at(1, 0) + at(1, 1) - at(-1, -1) - 2 * at(-1, 0) - at(-1, 1);
+      const gy = at(-1, 1) + 2 * at(0, 1) + at(1, 1) - at(-1, -1) - 2 * at(0, -1) - at(1, -1);
+      if (Math.hypot(gx, gy) > EDGE_THRESHOLD) edges++;
+    }
+  }
+
+  return {
+    brightness: brightness / pixels,
+    saturation: saturation / pixels,
+    hueSectors: hueSectors.map((v) => (hueTotal > 0 ? v / hueTotal : 0)),
+    edgeDensity: edges / ((WIDTH - 2) * (HEIGHT - 2)),
+  };
+}
+
+function instrumentsForHue(sector: number | null) {
+  if (sector === null) return GREY_INSTRUMENTS;
+  if (sector <= 2 || sector === 11) return WARM_INSTRUMENTS;
+  if (sector <= 5) return GREEN_INSTRUMENTS;
+  if (sector <= 8) return COOL_INSTRUMENTS;
+  return PURPLE_INSTRUMENTS;
+}
+
+function moodFor(features: ImageFeatures, energy: number) {
+  const bright = features.brightness > 0.5;
+  const vivid = features.saturation > 0.35;
+  if (energy > 0.7) return bright ? "Euphoric" : "Driving";
+  if (bright) return vivid ? "Playful" : "Airy";
+  return vivid ? "Moody" : "Brooding";
+}
+
+/**
+ * Maps image features to a scene analysis without any network access. The
+ * same frame always yields the same result.
+ */
+export function featuresToSceneAnalysis(features: ImageFeatures): SceneAnalysis {
+  // Detail drives energy most; edge density rarely exceeds ~0.4 in practice.
+  const detail = Math.min(1, features.edgeDensity / 0.4);
+  const energy = Math.min(1, 0.5 * detail + 0.3 * features.saturation + 0.2 * features.brightness);
+
+  const grey = features.saturation < GREY_SATURATION;
+  const dominant = grey ? null : features.hueSectors.indexOf(Math.max(...features.hueSectors));
+  // Hue sectors walk the keys in SCALE_OPTIONS order; grey scenes stay in C / A minor.
+  const scale = SCALE_OPTIONS[dominant ?? 0].value;
+
+  const center = Math.round(70 + energy * 80);
+  const bpmRange = { min: center - 6, max: center + 6 };
+  const styles = STYLES_BY_ENERGY[Math.min(STYLES_BY_ENERGY.length - 1, Math.floor(energy * STYLES_BY_ENERGY.length))];
+  const instruments = instrumentsForHue(dominant);
+  const texture = detail > 0.5 ? "Glitchy" : features.brightness < 0.3 ? "Dusty" : "Smooth";
+  const mood = moodFor(features, energy);
+
+  const prompts = styles.map((style, i) => ({
+    text: `${style}, ${instruments[i]}, ${i === 0 ? mood : texture}, ${center}bpm`,
+    weight: [1, 0.7, 0.5][i],
+  }));
+
+  const hue = dominant === null ? "muted grey" : HUE_NAMES[dominant];
+  const light = features.brightness > 0.6 ? "Bright" : features.brightness < 0.3 ? "Dark" : "Softly lit";
+  const density = detail > 0.5 ? "busy" : detail > 0.2 ? "textured" : "sparse";
+
+  return {
+    description: `${light}, ${density} scene dominated by ${hue} tones.`,
+    mood,
+    energy: Number(energy.toFixed(2)),
+    bpmRange,
+    scale,
+    instruments,
+    prompts,
+  };
+}
+
+/** Local, deterministic stand-in for the vision model. */
+export class HeuristicAnalyzer {
+  private readonly canvas = document.createElement("canvas");
+
+  public analyze(source: CanvasImageSource): SceneAnalysis {
+    return featuresToSceneAnalysis(extractImageFeatures(source, this.canvas));
+  }
+}
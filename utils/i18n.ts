@@ -13,6 +13,7 @@ export const translations = {
     camera: "Camera",
     screen: "Screen",
     image: "Image",
+    video: "Video",
     confirmIdentity: "Confirm Identity",
     cancel: "Cancel",
     begin: "Begin symphony",
@@ -22,15 +23,69 @@ export const translations = {
     modulating: "Modulating Flow...",
     ready: "Ready",
     flowing: "Flowing",
+    connectionLost: "Connection lost",
+    waitingForCamera: "Waiting for camera...",
+    reconnect: "Reconnect",
     engineTuning: "Engine Tuning",
     infinite: "INFINITE",
     staticMood: "Static mood cycle",
     analyzeEvery: "Analyze every",
+    scene: "SCENE",
+    onSceneChange: "Analyze when the scene changes",
+    sceneThreshold: "Change threshold",
+    minWait: "Min",
+    maxWait: "Max",
     transitionSmoothness: "Transition Smoothness",
     language: "Language",
     addVibe: "Add vibe...",
     refresh: "Refresh",
     savedEchoes: "Saved Vibes",
+    captureFormat: "Capture Format",
+    captureLength: "Capture Length",
+    masterFx: "Master FX",
+    eq: "EQ",
+    reverb: "Reverb",
+    compressor: "Compressor",
+    limiter: "Limiter",
+    lowGain: "Low",
+    midGain: "Mid",
+    highGain: "High",
+    mix: "Mix",
+    decay: "Decay",
+    damping: "Damping",
+    threshold: "Threshold",
+    ratio: "Ratio",
+    ceiling: "Ceiling",
+    custom: "Custom",
+    loudness: "Loudness",
+    autoGain: "Auto Gain",
+    targetLoudness: "Target",
+    integrated: "Integrated",
+    sceneAnalysis: "Scene analysis",
+    energy: "Energy",
+    instruments: "Instruments",
+    motionModulation: "Motion Modulation",
+    motion: "Motion",
+    colorChange: "Color change",
+    promptWeights: "Prompt weights",
+    smoothing: "Smoothing",
+    linear: "Linear",
+    exponential: "Exponential",
+    logarithmic: "Logarithmic",
+    sCurve: "S-curve",
+    engine: "Engine",
+    auto: "Auto",
+    bpm: "BPM",
+    density: "Density",
+    brightness: "Brightness",
+    scale: "Scale",
+    guidance: "Guidance",
+    temperature: "Temperature",
+    topK: "Top-K",
+    seed: "Seed",
+    muteBass: "Mute bass",
+    muteDrums: "Mute drums",
+    onlyBassAndDrums: "Only bass & drums",
     // Tooltips
     backTooltip: "Back to home",
     switchCameraTooltip: "Switch camera",
@@ -45,6 +100,81 @@ export const translations = {
     pauseTooltip: "Pause the symphony",
     captureTooltip: "Manual snapshot and analysis",
     closeTooltip: "Close",
+    reconnectTooltip: "Try connecting to the music engine again",
+    localCaptureTooltip: "Analyze locally while the AI rests",
+    analyzerLocal: "Local",
+    visionProvider: "Vision Provider",
+    gemini: "Gemini",
+    openai: "OpenAI-compatible",
+    mock: "Mock",
+    baseUrl: "Base URL",
+    model: "Model",
+    apiKey: "API Key",
+    optional: "Optional",
+    promptTemplate: "Prompt Template",
+    duplicate: "Duplicate",
+    importTemplates: "Import templates",
+    exportTemplates: "Export templates",
+    delete: "Delete",
+    unknownVariables: "Unknown variables",
+    saveVersion: "Save as",
+    discard: "Discard",
+    restoreVersion: "Restore an earlier version…",
+    styleHint: "Style Hint",
+    styleHintPlaceholder: "e.g. more jazz, no vocals",
+    timeline: "Timeline",
+    exportTimelineTooltip: "Export timeline as JSON",
+    revertTo: "Return to the vibe from",
+    temporalContext: "Temporal Context",
+    framesPerAnalysis: "Frames per analysis",
+    frameSpacing: "Frame spacing",
+    contactSheet: "Contact sheet",
+    roiTooltip: "Choose what the music follows",
+    roiHint: "Drag to select the area to analyze",
+    roiReset: "Full frame",
+    roiDone: "Done",
+    filtered: "Filtered",
+    rephrase: "Rephrase",
+    rephraseTooltip: "Ask the model for a compliant alternative",
+    quota: "Analysis Quota",
+    requestsPerMinute: "Requests per minute",
+    requestsPerDay: "Requests per day",
+    perMinute: "/min",
+    nextAnalysis: "next in",
+    quotaToday: "Left today",
+    clip: "Video clip",
+    playClip: "Play clip",
+    pauseClip: "Pause clip",
+    clipPosition: "Clip position",
+    cues: "cues",
+    slideshow: "Slideshow",
+    slideshowName: "Slideshow name",
+    slides: "slides",
+    addSlides: "Add images",
+    loadingSlides: "Loading images...",
+    dropImages: "drop images here to add them",
+    slideSeconds: "Seconds on screen",
+    transition: "Transition",
+    cut: "Cut",
+    fade: "Fade",
+    slideAnalyzed: "Analyzed; replays reuse it",
+    moveUp: "Move up",
+    moveDown: "Move down",
+    save: "Save",
+    savedSlideshows: "Saved Slideshows",
+    editSlideshow: "Edit slideshow",
+    previousSlide: "Previous slide",
+    nextSlide: "Next slide",
+    cameraDevice: "Camera",
+    resolution: "Resolution",
+    frameRate: "Frame rate",
+    mirror: "Mirror",
+    on: "On",
+    off: "Off",
+    disconnected: "disconnected",
+    paused: "Paused",
+    resumeTooltip: "Resume where the music left off",
+    stopTooltip: "Stop and end the session",
   },
   pt: {
     logo: "Sonar",
@@ -52,6 +182,7 @@ export const translations = {
     camera: "Câmera",
     screen: "Tela",
     image: "Imagem",
+    video: "Vídeo",
     confirmIdentity: "Confirmar Identidade",
     cancel: "Cancelar",
     begin: "Iniciar sinfonia",
@@ -61,15 +192,69 @@ export const translations = {
     modulating: "Modulando Fluxo...",
     ready: "Pronto",
     flowing: "Fluindo",
+    connectionLost: "Conexão perdida",
+    waitingForCamera: "Aguardando a câmera...",
+    reconnect: "Reconectar",
     engineTuning: "Ajuste do Motor",
     infinite: "INFINITO",
     staticMood: "Ciclo de humor estático",
     analyzeEvery: "Analisar a cada",
+    scene: "CENA",
+    onSceneChange: "Analisar quando a cena mudar",
+    sceneThreshold: "Limiar de mudança",
+    minWait: "Mín",
+    maxWait: "Máx",
     transitionSmoothness: "Suavidade de Transição",
     language: "Idioma",
     addVibe: "Adicionar vibe...",
     refresh: "Atualizar",
     savedEchoes: "Vibes Salvas",
+    captureFormat: "Formato de Captura",
+    captureLength: "Duração da Captura",
+    masterFx: "Efeitos Master",
+    eq: "EQ",
+    reverb: "Reverb",
+    compressor: "Compressor",
+    limiter: "Limitador",
+    lowGain: "Graves",
+    midGain: "Médios",
+    highGain: "Agudos",
+    mix: "Mix",
+    decay: "Decaimento",
+    damping: "Amortecimento",
+    threshold: "Limiar",
+    ratio: "Proporção",
+    ceiling: "Teto",
+    custom: "Personalizado",
+    loudness: "Loudness",
+    autoGain: "Ganho Automático",
+    targetLoudness: "Alvo",
+    integrated: "Integrado",
+    sceneAnalysis: "Análise da cena",
+    energy: "Energia",
+    instruments: "Instrumentos",
+    motionModulation: "Modulação por Movimento",
+    motion: "Movimento",
+    colorChange: "Mudança de cor",
+    promptWeights: "Pesos das vibes",
+    smoothing: "Suavização",
+    linear: "Linear",
+    exponential: "Exponencial",
+    logarithmic: "Logarítmica",
+    sCurve: "Curva S",
+    engine: "Motor",
+    auto: "Auto",
+    bpm: "BPM",
+    density: "Densidade",
+    brightness: "Brilho",
+    scale: "Escala",
+    guidance: "Orientação",
+    temperature: "Temperatura",
+    topK: "Top-K",
+    seed: "Semente",
+    muteBass: "Silenciar baixo",
+    muteDrums: "Silenciar bateria",
+    onlyBassAndDrums: "Só baixo e bateria",
     // Tooltips
     backTooltip: "Voltar ao início",
     switchCameraTooltip: "Trocar câmera",
@@ -84,6 +269,81 @@ export const translations = {
     pauseTooltip: "Pausar a sinfonia",
     captureTooltip: "Captura manual e análise",
     closeTooltip: "Fechar",
+    reconnectTooltip: "Tentar conectar ao motor musical novamente",
+    localCaptureTooltip: "Analisar localmente enquanto a IA descansa",
+    analyzerLocal: "Local",
+    visionProvider: "Provedor de Visão",
+    gemini: "Gemini",
+    openai: "Compatível com OpenAI",
+    mock: "Simulado",
+    baseUrl: "URL Base",
+    model: "Modelo",
+    apiKey: "Chave de API",
+    optional: "Opcional",
+    promptTemplate: "Modelo de Prompt",
+    duplicate: "Duplicar",
+    importTemplates: "Importar modelos",
+    exportTemplates: "Exportar modelos",
+    delete: "Excluir",
+    unknownVariables: "Variáveis desconhecidas",
+    saveVersion: "Salvar como",
+    discard: "Descartar",
+    restoreVersion: "Restaurar uma versão anterior…",
+    styleHint: "Dica de Estilo",
+    styleHintPlaceholder: "ex.: mais jazz, sem vocais",
+    timeline: "Linha do Tempo",
+    exportTimelineTooltip: "Exportar linha do tempo como JSON",
+    revertTo: "Voltar à vibe de",
+    temporalContext: "Contexto Temporal",
+    framesPerAnalysis: "Quadros por análise",
+    frameSpacing: "Intervalo entre quadros",
+    contactSheet: "Folha de contato",
+    roiTooltip: "Escolher o que a música acompanha",
+    roiHint: "Arraste para selecionar a área analisada",
+    roiReset: "Quadro inteiro",
+    roiDone: "Pronto",
+    filtered: "Filtrado",
+    rephrase: "Reformular",
+    rephraseTooltip: "Pedir ao modelo uma alternativa permitida",
+    quota: "Cota de Análise",
+    requestsPerMinute: "Requisições por minuto",
+    requestsPerDay: "Requisições por dia",
+    perMinute: "/min",
+    nextAnalysis: "próxima em",
+    quotaToday: "Restantes hoje",
+    clip: "Clipe de vídeo",
+    playClip: "Reproduzir clipe",
+    pauseClip: "Pausar clipe",
+    clipPosition: "Posição do clipe",
+    cues: "marcas",
+    slideshow: "Apresentação",
+    slideshowName: "Nome da apresentação",
+    slides: "slides",
+    addSlides: "Adicionar imagens",
+    loadingSlides: "Carregando imagens...",
+    dropImages: "solte imagens aqui para adicioná-las",
+    slideSeconds: "Segundos na tela",
+    transition: "Transição",
+    cut: "Corte",
+    fade: "Fusão",
+    slideAnalyzed: "Analisado; repetições reutilizam a análise",
+    moveUp: "Mover para cima",
+    moveDown: "Mover para baixo",
+    save: "Salvar",
+    savedSlideshows: "Apresentações Salvas",
+    editSlideshow: "Editar apresentação",
+    previousSlide: "Slide anterior",
+    nextSlide: "Próximo slide",
+    cameraDevice: "Câmera",
+    resolution: "Resolução",
+    frameRate: "Taxa de quadros",
+    mirror: "Espelhar",
+    on: "Sim",
+    off: "Não",
+    disconnected: "desconectada",
+    paused: "Pausado",
+    resumeTooltip: "Retomar a música de onde parou",
+    stopTooltip: "Parar e encerrar a sessão",
   }
 };
 
@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export interface BufferHealth {
+  /** Seconds of audio queued ahead of the playhead after the latest chunk. */
+  depth: number;
+  /** Seconds that were still queued when the latest chunk arrived. */
+  depthOnArrival: number;
+  targetLatency: number;
+  underruns: number;
+  lateChunks: number;
+  chunks: number;
+}
+
+// A chunk arriving with less than this fraction of the target queued counts as late.
+const LATE_FRACTION = 0.25;
+
+/**
+ * Schedules streamed audio chunks back to back on an AudioContext timeline,
+ * keeping roughly `targetLatency` seconds queued to absorb network jitter.
+ * When the playhead overtakes the queue it counts an underrun and rebuffers.
+ */
+export class JitterBuffer {
+  private nextStartTime = 0;
+  private lastDepthOnArrival = 0;
+  private underruns = 0;
+  private lateChunks = 0;
+  private chunks = 0;
+
+  constructor(
+    private readonly ctx: BaseAudioContext,
+    public targetLatency: number,
+  ) {}
+
+  public get depth() {
+    return this.nextStartTime === 0 ? 0 : Math.max(0, this.nextStartTime - this.ctx.currentTime);
+  }
+
+  public get health(): BufferHealth {
+    return {
+      depth: this.depth,
+      depthOnArrival: this.lastDepthOnArrival,
+      targetLatency: this.targetLatency,
+      underruns: this.underruns,
+      lateChunks: this.lateChunks,
+      chunks: this.chunks,
+    };
+  }
+
+  /** Returns the context time at which a chunk of `duration` seconds should start. */
+  public schedule(duration: number): number {
+    const now = this.ctx.currentTime;
+    const primed = this.nextStartTime !== 0;
+    this.chunks++;
+    this.lastDepthOnArrival = primed ? this.nextStartTime - now : 0;
+
+    let startAt: number;
+    if (!primed) {
+      startAt = now + this.targetLatency;
+    } else if (this.nextStartTime < now) {
+      this.underruns++;
+      startAt = now + this.targetLatency;
+    } else {
+      if (this.lastDepthOnArrival < this.targetLatency * LATE_FRACTION) this.lateChunks++;
+      startAt = this.nextStartTime;
+    }
+
+    this.nextStartTime = startAt + duration;
+    return startAt;
+  }
+
+  /** Drops the queue position so the next chunk primes the buffer again. */
+  public reset() {
+    this.nextStartTime = 0;
+    this.lastDepthOnArrival = 0;
+  }
+
+  public resetStats() {
+    this.underruns = 0;
+    this.lateChunks = 0;
+    this.chunks = 0;
+  }
+}
@@ -4,42 +4,93 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import {
-  GoogleGenAI,
-  type AudioChunk,
-  type LiveMusicServerMessage,
-  type LiveMusicSession,
-  type WeightedPrompt,
-} from "@google/genai";
+import type { AudioChunk, LiveMusicGenerationConfig, WeightedPrompt } from "@google/genai";
 import { decode, decodeAudioData } from "./audio";
+import { BeatTracker, type Beat, type Onset } from "./beat_tracker";
+import { JitterBuffer } from "./jitter_buffer";
+import { LoudnessMeter, type LoudnessMeasurement } from "./loudness_meter";
+import { MasterChain, type MasterChainSettings } from "./master_chain";
+import type { MusicBackend, MusicServerMessage, MusicSession } from "./music_backend";
+import type { PcmRecorder } from "./pcm_recorder";
+import { PcmTap } from "./pcm_tap";
+import { DEFAULT_RETRY_POLICY, getRetryDelay, type RetryPolicy } from "./retry_policy";
 import { throttle } from "./throttle";
 
 export type PlaybackState = "stopped" | "playing" | "loading" | "paused";
 
-export class LiveMusicHelper extends EventTarget {
-  private session: LiveMusicSession | null = null;
-  private sessionPromise: Promise<LiveMusicSession> | null = null;
+export interface LiveMusicHelperOptions {
+  /** Seconds of audio to keep queued ahead of the playhead. */
+  targetLatency?: number;
+  retryPolicy?: Partial<RetryPolicy>;
+}
+
+export interface AutoGainSettings {
+  enabled: boolean;
+  /** Short-term loudness to hold, in LUFS. */
+  target: number;
+}
+
+export const DEFAULT_AUTO_GAIN: AutoGainSettings = { enabled: false, target: -16 };
+
+export interface LoudnessReading extends LoudnessMeasurement {
+  /** Gain currently applied by the auto-gain stage, in dB. */
+  autoGain: number;
+}
+
+const AUTO_GAIN_RANGE_DB = { min: -24, max: 12 };
+// Fraction of the remaining correction applied per meter update (~12 per second).
+const AUTO_GAIN_SMOOTHING = 0.04;
+// Quieter material (fades, silence between takes) is left alone rather than boosted.
+const AUTO_GAIN_FLOOR_LUFS = -50;
+const LOUDNESS_EVENT_INTERVAL_MS = 250;
 
-  private filteredPrompts = new Set<string>();
-  private nextStartTime = 0;
+export interface ConnectionFailure {
+  reason: string;
+  attempts: number;
+}
+
+export class LiveMusicHelper extends EventTarget {
+  private session: MusicSession | null = null;
+  private sessionPromise: Promise<MusicSession> | null = null;
+
+  // Prompts the service refused, by text, with its reason. Cleared when the session stops.
+  private filteredPrompts = new Map<string, string>();
+  private jitterBuffer: JitterBuffer;
+  private recorders = new Set<PcmRecorder>();
+  private outputTap: PcmTap;
+  private loudnessMeter: LoudnessMeter;
+  private sourceTap: PcmTap;
+  private sourceMeter: LoudnessMeter;
+  private autoGainSettings: AutoGainSettings = { ...DEFAULT_AUTO_GAIN };
+  private autoGainDb = 0;
+  private lastLoudnessEvent = 0;
+  private beatTracker: BeatTracker;
+  private beatTimeout: number | null = null;
+  private beatIndex = 0;
   
   public readonly audioContext: AudioContext;
   private outputNode: GainNode; 
+  private autoGainNode: GainNode;
+  private masterChain: MasterChain;
   private volumeNode: GainNode; 
   public analyser: AnalyserNode; 
 
   private playbackState: PlaybackState = "stopped";
   private prompts: WeightedPrompt[] = [];
   private lastSentPrompts: WeightedPrompt[] = [];
+  private generationConfig: LiveMusicGenerationConfig = {};
   
   private retryCount = 0;
-  private maxRetries = 5;
+  private readonly retryPolicy: RetryPolicy;
+  private retryTimeout: number | null = null;
   private isAttemptingReconnect = false;
   private loadingTimeout: number | null = null;
+  // Incremented per connection so callbacks from abandoned sockets are ignored.
+  private connectionId = 0;
 
   constructor(
-    private readonly apiKey: string,
-    private readonly model: string,
+    private readonly backend: MusicBackend,
+    options: LiveMusicHelperOptions = {},
   ) {
     super();
     this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 48000 });
@@ -52,9 +103,36 @@ export class LiveMusicHelper extends EventTarget {
     this.analyser.smoothingTimeConstant = 0.85;
     this.volumeNode.gain.value = 0.8;
 
-    this.outputNode.connect(this.volumeNode);
+    this.autoGainNode = this.audioContext.createGain();
+    this.masterChain = new MasterChain(this.audioContext);
+
+    // Auto-gain sits ahead of the chain so the limiter still guards its output.
+    this.outputNode.connect(this.autoGainNode);
+    this.autoGainNode.connect(this.masterChain.input);
+    this.masterChain.output.connect(this.volumeNode);
     this.volumeNode.connect(this.analyser);
     this.analyser.connect(this.audioContext.destination);
+
+    // Metering and recordings both see the processed output, before the listener's volume.
+    this.loudnessMeter = new LoudnessMeter(this.audioContext.sampleRate, 2);
+    this.beatTracker = new BeatTracker(this.audioContext.sampleRate);
+    this.outputTap = new PcmTap(this.audioContext, this.masterChain.output, 2, (channels) => this.handleOutput(channels));
+    // Auto-gain measures the source ahead of its own stage and the chain, whose
+    // compression would otherwise hide part of every boost and invite another.
+    this.sourceMeter = new LoudnessMeter(this.audioContext.sampleRate, 2, { truePeak: false });
+    this.sourceTap = new PcmTap(this.audioContext, this.outputNode, 2, (channels) => this.handleSource(channels));
+
+    this.jitterBuffer = new JitterBuffer(this.audioContext, options.targetLatency ?? 1);
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retryPolicy };
+  }
+
+  public get bufferHealth() {
+    return this.jitterBuffer.health;
+  }
+
+  /** Seconds of audio to keep queued ahead of the playhead. Applies from the next rebuffer. */
+  public setTargetLatency(seconds: number) {
+    this.jitterBuffer.targetLatency = Math.max(0.1, seconds);
   }
 
   public setVolume(val: number) {
@@ -62,22 +140,169 @@ export class LiveMusicHelper extends EventTarget {
     this.volumeNode.gain.setTargetAtTime(volume, this.audioContext.currentTime, 0.1);
   }
 
-  public connectRecorder(destination: MediaStreamAudioDestinationNode) {
-    this.volumeNode.connect(destination);
+  public get masterSettings(): MasterChainSettings {
+    return this.masterChain.settings;
   }
 
-  public disconnectRecorder(destination: MediaStreamAudioDestinationNode) {
-    this.volumeNode.disconnect(destination);
+  public setMasterSettings(settings: MasterChainSettings) {
+    this.masterChain.apply(settings);
   }
 
-  private async connect(): Promise<LiveMusicSession> {
-    const ai = new GoogleGenAI({ apiKey: this.apiKey });
-    
+  /** Feeds the post-effects output to `recorder` until it is disconnected. */
+  public connectRecorder(recorder: PcmRecorder) {
+    this.recorders.add(recorder);
+    this.updateTaps();
+  }
+
+  /** Detaches `recorder` once the tap's partial block has reached it, so a take keeps its last frames. */
+  public async disconnectRecorder(recorder: PcmRecorder) {
+    await this.outputTap.flush();
+    this.recorders.delete(recorder);
+    this.updateTaps();
+  }
+
+  /** The taps only run while there is music to measure or a take to feed. */
+  private updateTaps() {
+    const playing = this.playbackState === "playing";
+    this.outputTap.setActive(playing || this.recorders.size > 0);
+    this.sourceTap.setActive(playing && this.autoGainSettings.enabled);
+  }
+
+  public get loudness(): LoudnessReading {
+    return { ...this.loudnessMeter.measurement, autoGain: this.autoGainDb };
+  }
+
+  public get autoGain(): AutoGainSettings {
+    return { ...this.autoGainSettings };
+  }
+
+  public setAutoGain(settings: AutoGainSettings) {
+    this.autoGainSettings = { ...settings };
+    if (!settings.enabled) {
+      this.autoGainDb = 0;
+      this.autoGainNode.gain.setTargetAtTime(1, this.audioContext.currentTime, 0.5);
+      this.sourceMeter.reset();
+    }
+    this.updateTaps();
+  }
+
+  private handleSource(channels: Float32Array[]) {
+    this.sourceMeter.push(channels);
+    this.updateAutoGain(this.sourceMeter.measurement.shortTerm);
+  }
+
+  private handleOutput(channels: Float32Array[]) {
+    this.loudnessMeter.push(channels);
+    const reading = this.loudness;
+
+    const now = performance.now();
+    if (now - this.lastLoudnessEvent >= LOUDNESS_EVENT_INTERVAL_MS) {
+      this.lastLoudnessEvent = now;
+      this.dispatchEvent(new CustomEvent("loudness", { detail: reading }));
+    }
+
+    for (const onset of this.beatTracker.push(channels, this.audioContext.currentTime)) {
+      this.dispatchEvent(new CustomEvent<Onset>("onset", { detail: onset }));
+    }
+    if (this.beatTimeout === null) this.scheduleBeat();
+
+    for (const recorder of this.recorders) recorder.appendChannels(channels.map((ch) => ch.slice()));
+  }
+
+  public get tempo() {
+    return this.beatTracker.tempo;
+  }
+
+  /**
+   * Arms a timer for the next beat on the tracker's grid. The grid is re-read
+   * on every beat, so tempo and phase corrections apply from the next one.
+   */
+  private scheduleBeat() {
+    if (this.playbackState !== "playing") return;
+    const now = this.audioContext.currentTime;
+    const time = this.beatTracker.nextBeat(now);
+    const tempo = this.beatTracker.tempo;
+    if (time === null || !tempo) return;
+
+    // Beats are heard after the output latency, so fire then rather than at render time.
+    const delay = (time - now + (this.audioContext.outputLatency || 0)) * 1000;
+    this.beatTimeout = window.setTimeout(() => {
+      this.beatTimeout = null;
+      if (this.playbackState !== "playing") return;
+      const beat: Beat = { time, bpm: tempo.bpm, index: this.beatIndex++, confidence: tempo.confidence };
+      this.dispatchEvent(new CustomEvent<Beat>("beat", { detail: beat }));
+      this.scheduleBeat();
+    }, Math.max(0, delay));
+  }
+
+  private clearBeatTimeout() {
+    if (this.beatTimeout) {
+      clearTimeout(this.beatTimeout);
+      this.beatTimeout = null;
+    }
+  }
+
+  /** Nudges the auto-gain toward the gain that brings the source's short-term loudness to the target. */
+  private updateAutoGain(sourceLoudness: number) {
+    if (!this.autoGainSettings.enabled || !(sourceLoudness > AUTO_GAIN_FLOOR_LUFS)) return;
+    const desired = Math.max(AUTO_GAIN_RANGE_DB.min, Math.min(AUTO_GAIN_RANGE_DB.max, this.autoGainSettings.target - sourceLoudness));
+    this.autoGainDb += (desired - this.autoGainDb) * AUTO_GAIN_SMOOTHING;
+    this.autoGainNode.gain.setTargetAtTime(Math.pow(10, this.autoGainDb / 20), this.audioContext.currentTime, 0.5);
+  }
+
+  public get backendName() {
+    return this.backend.name;
+  }
+
+  private async connect(): Promise<MusicSession> {
     if (this.audioContext.state === 'suspended') {
       await this.audioContext.resume();
     }
 
-    // Set a safety timeout for the loading state
+    const id = ++this.connectionId;
+    const isCurrent = () => id === this.connectionId;
+
+    this.armLoadingTimeout();
+
+    return this.backend.connect({
+      onopen: () => {
+        if (!isCurrent()) return;
+        this.isAttemptingReconnect = false;
+        this.clearLoadingTimeout();
+        console.log(`Music session opened (${this.backend.name}).`);
+      },
+      onmessage: async (e: MusicServerMessage) => {
+        if (!isCurrent()) return;
+        if (e.filteredPrompt) {
+          this.filteredPrompts.set(e.filteredPrompt.text!, e.filteredPrompt.filteredReason ?? "");
+          this.dispatchEvent(new CustomEvent("filtered-prompt", { detail: e.filteredPrompt }));
+        }
+        if (e.serverContent?.audioChunks) {
+          await this.processAudioChunks(e.serverContent.audioChunks);
+        }
+      },
+      onclose: () => {
+        if (!isCurrent()) return;
+        this.clearLoadingTimeout();
+        // A paused session reconnects on resume instead of retrying in the background.
+        if (this.playbackState === "paused") this.abandonSession();
+        else if (this.playbackState !== "stopped" && !this.isAttemptingReconnect) {
+          this.handleRetry("Socket closed");
+        }
+      },
+      onerror: () => {
+        if (!isCurrent()) return;
+        this.clearLoadingTimeout();
+        if (this.playbackState === "paused") this.abandonSession();
+        else if (this.playbackState !== "stopped") {
+          this.handleRetry("Socket error");
+        }
+      },
+    });
+  }
+
+  /** Safety net for the loading state: retries if no audio arrives in time. */
+  private armLoadingTimeout() {
     this.clearLoadingTimeout();
     this.loadingTimeout = window.setTimeout(() => {
       if (this.playbackState === "loading") {
@@ -85,47 +310,6 @@ export class LiveMusicHelper extends EventTarget {
         this.handleRetry("Connection timeout");
       }
     }, 8000);
-
-    try {
-      const connectPromise = (ai.live as any).music.connect({
-        model: this.model,
-        callbacks: {
-          onopen: () => {
-            this.retryCount = 0;
-            this.isAttemptingReconnect = false;
-            this.clearLoadingTimeout();
-            console.log("Music session opened.");
-          },
-          onmessage: async (e: LiveMusicServerMessage) => {
-            if (e.filteredPrompt) {
-              this.filteredPrompts.add(e.filteredPrompt.text!);
-              this.dispatchEvent(new CustomEvent("filtered-prompt", { detail: e.filteredPrompt }));
-            }
-            if (e.serverContent?.audioChunks) {
-              await this.processAudioChunks(e.serverContent.audioChunks);
-            }
-          },
-          onclose: (event: any) => {
-            this.clearLoadingTimeout();
-            if (this.playbackState !== "stopped" && !this.isAttemptingReconnect) {
-              this.handleRetry("Socket closed");
-            }
-          },
-          onerror: (e: any) => {
-            this.clearLoadingTimeout();
-            if (this.playbackState !== "stopped") {
-              this.handleRetry("Socket error");
-            }
-          },
-        },
-      });
-      
-      return await connectPromise;
-    } catch (err) {
-      this.clearLoadingTimeout();
-      this.sessionPromise = null;
-      throw err;
-    }
   }
 
   private clearLoadingTimeout() {
@@ -135,29 +319,74 @@ export class LiveMusicHelper extends EventTarget {
     }
   }
 
+  private clearRetryTimeout() {
+    if (this.retryTimeout) {
+      clearTimeout(this.retryTimeout);
+      this.retryTimeout = null;
+    }
+  }
+
   private handleRetry(reason: string) {
     if (this.isAttemptingReconnect) return;
     this.isAttemptingReconnect = true;
-    
+
+    this.abandonSession();
+    this.jitterBuffer.reset();
+
+    if (this.retryCount >= this.retryPolicy.maxRetries) {
+      this.giveUp(reason);
+      return;
+    }
+
     this.retryCount++;
+    this.setPlaybackState("loading");
+    const delay = getRetryDelay(this.retryPolicy, this.retryCount);
+    this.dispatchEvent(new CustomEvent("error", {
+      detail: `${reason}. Retrying in ${(delay / 1000).toFixed(1)}s (${this.retryCount}/${this.retryPolicy.maxRetries})`,
+    }));
+
+    this.retryTimeout = window.setTimeout(() => {
+      this.retryTimeout = null;
+      // Cleared first so a failed attempt can schedule the next one.
+      this.isAttemptingReconnect = false;
+      if (this.playbackState === "stopped") return;
+      // play() restores the last weighted prompts and generation config on the new session.
+      this.play().catch(() => {});
+    }, delay);
+  }
+
+  private giveUp(reason: string) {
+    const failure: ConnectionFailure = { reason, attempts: this.retryCount };
+    this.clearLoadingTimeout();
+    this.retryCount = 0;
+    this.isAttemptingReconnect = false;
+    this.setPlaybackState("stopped");
+    this.dispatchEvent(new CustomEvent("connection-failed", { detail: failure }));
+  }
+
+  /** Drops the current session without waiting for its socket to wind down. */
+  private abandonSession() {
+    this.connectionId++;
+    const s = this.session;
     this.session = null;
     this.sessionPromise = null;
-    this.setPlaybackState("loading");
-    this.nextStartTime = 0;
-    
-    this.dispatchEvent(new CustomEvent("error", { detail: `Retrying connection... (${this.retryCount})` }));
-    
-    setTimeout(() => {
-      if (this.playbackState !== "stopped") {
-        this.play().catch(() => { this.isAttemptingReconnect = false; });
-      } else {
-        this.isAttemptingReconnect = false;
-      }
-    }, 2000);
+    if (s) {
+      try { s.close(); } catch (e) {}
+    }
+  }
+
+  /** Starts a fresh connection after `connection-failed`, with a full retry budget. */
+  public async reconnect() {
+    this.clearRetryTimeout();
+    this.abandonSession();
+    this.retryCount = 0;
+    this.isAttemptingReconnect = false;
+    await this.play();
   }
 
   private setPlaybackState(state: PlaybackState) {
     this.playbackState = state;
+    this.updateTaps();
     this.dispatchEvent(new CustomEvent("playback-state-changed", { detail: state }));
   }
 
@@ -179,16 +408,12 @@ export class LiveMusicHelper extends EventTarget {
       source.buffer = audioBuffer;
       source.connect(this.outputNode);
 
-      const now = this.audioContext.currentTime;
-      if (this.nextStartTime < now - 0.5) {
-        this.nextStartTime = now + 0.1;
-      }
-
-      source.start(this.nextStartTime);
-      this.nextStartTime += audioBuffer.duration;
+      source.start(this.jitterBuffer.schedule(audioBuffer.duration));
+      this.dispatchEvent(new CustomEvent("buffer-health", { detail: this.jitterBuffer.health }));
 
       if (this.playbackState === "loading") {
         this.clearLoadingTimeout();
+        this.retryCount = 0;
         this.setPlaybackState("playing");
         console.log("First audio chunk received. Playback started.");
       }
@@ -210,6 +435,10 @@ export class LiveMusicHelper extends EventTarget {
     }
   }
 
+  public clearFilteredPrompts() {
+    this.filteredPrompts.clear();
+  }
+
   public get activePrompts(): WeightedPrompt[] {
     return this.prompts
       .filter((p) => !this.filteredPrompts.has(p.text) && p.weight > 0)
@@ -232,6 +461,37 @@ export class LiveMusicHelper extends EventTarget {
     }
   }
 
+  public get musicGenerationConfig(): LiveMusicGenerationConfig {
+    return { ...this.generationConfig };
+  }
+
+  /**
+   * Merges `config` into the current generation config and sends it to the session.
+   * Fields set to `undefined` fall back to the model's defaults.
+   */
+  public async setMusicGenerationConfig(config: Partial<LiveMusicGenerationConfig>) {
+    const previous = this.generationConfig;
+    const next: LiveMusicGenerationConfig = { ...previous, ...config };
+    for (const key of Object.keys(next) as (keyof LiveMusicGenerationConfig)[]) {
+      if (next[key] === undefined) delete next[key];
+    }
+    this.generationConfig = next;
+
+    // The model only picks up BPM and scale changes after a context reset.
+    const needsReset = next.bpm !== previous.bpm || next.scale !== previous.scale;
+    await this.setMusicGenerationConfigImmediate(needsReset);
+  }
+
+  private async setMusicGenerationConfigImmediate(resetContext = false) {
+    if (!this.session) return;
+    try {
+      await this.session.setMusicGenerationConfig({ musicGenerationConfig: this.generationConfig });
+      if (resetContext) this.session.resetContext();
+    } catch (e: any) {
+      console.warn("Config update failed:", e);
+    }
+  }
+
   public async play() {
     if (this.sessionPromise) {
       await this.sessionPromise;
@@ -242,26 +502,82 @@ export class LiveMusicHelper extends EventTarget {
     
     this.setPlaybackState("loading");
     
+    const pending = this.connect();
+    this.sessionPromise = pending;
     try {
-      this.sessionPromise = this.connect();
-      this.session = await this.sessionPromise;
+      const session = await pending;
+      // A timeout or stop() may have abandoned this attempt while it was connecting.
+      if (this.sessionPromise !== pending) {
+        try { session.close(); } catch (e) {}
+        return;
+      }
+      this.session = session;
       this.sessionPromise = null;
-      
+
       await this.setWeightedPromptsImmediate();
+      await this.setMusicGenerationConfigImmediate();
       this.session.play();
       this.outputNode.gain.setTargetAtTime(1, this.audioContext.currentTime, 0.2);
     } catch (e: any) {
-      this.sessionPromise = null;
-      this.clearLoadingTimeout();
-      this.handleRetry("Play failed");
+      // An abandoned attempt is already being retried by whoever abandoned it.
+      if (this.sessionPromise === pending || this.session) {
+        this.sessionPromise = null;
+        this.clearLoadingTimeout();
+        this.handleRetry("Play failed");
+      }
       throw e;
     }
   }
 
+  /**
+   * Fades out and pauses the session, keeping it open along with its prompts,
+   * config and musical context. Audio already queued plays out under the fade.
+   * Returns false when there is nothing playing to pause, e.g. while loading.
+   */
+  public pause() {
+    if (this.playbackState !== "playing" || !this.session) return false;
+    this.clearLoadingTimeout();
+    this.setPlaybackState("paused");
+    this.clearBeatTimeout();
+    this.outputNode.gain.setTargetAtTime(0, this.audioContext.currentTime, 0.1);
+    try {
+      this.session.pause();
+    } catch (e) {
+      console.warn("Pause failed:", e);
+    }
+    return true;
+  }
+
+  /** Continues a paused session, reconnecting first if it was dropped meanwhile. */
+  public async resume() {
+    if (this.playbackState !== "paused") return;
+    if (!this.session) {
+      await this.play();
+      return;
+    }
+    if (this.audioContext.state === 'suspended') {
+      await this.audioContext.resume();
+    }
+    this.setPlaybackState("loading");
+    this.armLoadingTimeout();
+    // The playhead ran on past the queue while paused; prime afresh rather than count an underrun.
+    this.jitterBuffer.reset();
+    this.session.play();
+    this.outputNode.gain.setTargetAtTime(1, this.audioContext.currentTime, 0.2);
+  }
+
   public stop() {
     this.setPlaybackState("stopped");
     this.clearLoadingTimeout();
-    this.nextStartTime = 0;
+    this.jitterBuffer.reset();
+    this.jitterBuffer.resetStats();
+    this.loudnessMeter.reset();
+    this.sourceMeter.reset();
+    this.beatTracker.reset();
+    this.clearBeatTimeout();
+    this.beatIndex = 0;
+    this.clearFilteredPrompts();
+    this.clearRetryTimeout();
     this.retryCount = 0;
     this.isAttemptingReconnect = false;
     this.sessionPromise = null;
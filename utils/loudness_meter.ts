@@ -0,0 +1,229 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export interface LoudnessMeasurement {
+  /** LUFS over the last 400 ms. */
+  momentary: number;
+  /** LUFS over the last 3 s. */
+  shortTerm: number;
+  /** Gated LUFS since the last reset. */
+  integrated: number;
+  /** dBTP since the last reset, from 4x oversampled peaks. */
+  truePeak: number;
+}
+
+export interface LoudnessMeterOptions {
+  /** Oversampled peak detection roughly quadruples the cost, so it can be skipped. */
+  truePeak?: boolean;
+}
+
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+const MOMENTARY_SUBBLOCKS = 4; // 400 ms windows with a 100 ms hop
+const SHORT_TERM_SUBBLOCKS = 30;
+// The integrated reading keeps gated blocks as a histogram of 0.1 LU bins up to +5 LUFS.
+const HISTOGRAM_BINS_PER_LU = 10;
+const HISTOGRAM_BINS = (5 - ABSOLUTE_GATE_LUFS) * HISTOGRAM_BINS_PER_LU;
+const OVERSAMPLING = 4;
+const TAPS_PER_PHASE = 12;
+
+function energyToLufs(energy: number) {
+  return energy > 0 ? -0.691 + 10 * Math.log10(energy) : -Infinity;
+}
+
+type Biquad = { b: [number, number, number]; a: [number, number] };
+
+/** The two-stage K-weighting filter of ITU-R BS.1770, derived for any sample rate. */
+function kWeighting(sampleRate: number): [Biquad, Biquad] {
+  let f0 = 1681.974450955533;
+  let q = 0.7071752369554196;
+  let k = Math.tan(Math.PI * f0 / sampleRate);
+  const vh = Math.pow(10, 3.999843853973347 / 20);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  let a0 = 1 + k / q + k * k;
+  const shelf: Biquad = {
+    b: [(vh + vb * k / q + k * k) / a0, 2 * (k * k - vh) / a0, (vh - vb * k / q + k * k) / a0],
+    a: [2 * (k * k - 1) / a0, (1 - k / q + k * k) / a0],
+  };
+
+  f0 = 38.13547087602444;
+  q = 0.5003270373238773;
+  k = Math.tan(Math.PI * f0 / sampleRate);
+  a0 = 1 + k / q + k * k;
+  const highpass: Biquad = {
+    b: [1, -2, 1],
+    a: [2 * (k * k - 1) / a0, (1 - k / q + k * k) / a0],
+  };
+  return [shelf, highpass];
+}
+
+/** Hann-windowed sinc interpolator split into polyphase branches. */
+function interpolationPhases(): Float32Array[] {
+  const length = OVERSAMPLING * TAPS_PER_PHASE;
+  const center = (length - 1) / 2;
+  const phases = Array.from({ length: OVERSAMPLING }, () => new Float32Array(TAPS_PER_PHASE));
+  for (let n = 0; n < length; n++) {
+    const x = (n - center) / OVERSAMPLING;
+    const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+    const window = 0.5 - 0.5 * Math.cos(2 * Math.PI * (n + 0.5) / length);
+    phases[n % OVERSAMPLING][Math.floor(n / OVERSAMPLING)] = sinc * window;
+  }
+  return phases;
+}
+
+/**
+ * Streaming EBU R128 loudness meter. Feed it planar PCM in blocks of any size
+ * with `push`; readings update every 100 ms of audio.
+ */
+export class LoudnessMeter {
+  private readonly filters: [Biquad, Biquad];
+  private readonly filterState: Float64Array[];
+  private readonly subblockLength: number;
+  private readonly measureTruePeak: boolean;
+  private readonly phases = interpolationPhases();
+  private readonly history: Float32Array[];
+
+  private subblockEnergy = 0;
+  private subblockFill = 0;
+  private subblocks: number[] = [];
+  // Every 400 ms block above the absolute gate, binned by loudness so the
+  // integrated reading stays constant-time however long the meter runs.
+  private readonly binEnergy = new Float64Array(HISTOGRAM_BINS);
+  private readonly binCount = new Uint32Array(HISTOGRAM_BINS);
+  private gatedEnergy = 0;
+  private gatedCount = 0;
+  private peak = 0;
+
+  constructor(
+    public readonly sampleRate: number,
+    public readonly numChannels: number,
+    options: LoudnessMeterOptions = {},
+  ) {
+    this.filters = kWeighting(sampleRate);
+    this.subblockLength = Math.round(sampleRate / 10);
+    this.measureTruePeak = options.truePeak ?? true;
+    this.filterState = Array.from({ length: numChannels }, () => new Float64Array(8));
+    this.history = Array.from({ length: numChannels }, () => new Float32Array(TAPS_PER_PHASE));
+  }
+
+  public get measurement(): LoudnessMeasurement {
+    return {
+      momentary: this.windowLoudness(MOMENTARY_SUBBLOCKS),
+      shortTerm: this.windowLoudness(SHORT_TERM_SUBBLOCKS),
+      integrated: this.integrated(),
+      truePeak: this.peak > 0 ? 20 * Math.log10(this.peak) : -Infinity,
+    };
+  }
+
+  public reset() {
+    this.filterState.forEach((s) => s.fill(0));
+    this.history.forEach((h) => h.fill(0));
+    this.subblockEnergy = 0;
+    this.subblockFill = 0;
+    this.subblocks = [];
+    this.binEnergy.fill(0);
+    this.binCount.fill(0);
+    this.gatedEnergy = 0;
+    this.gatedCount = 0;
+    this.peak = 0;
+  }
+
+  public push(channels: Float32Array[]) {
+    const frames = channels[0]?.length ?? 0;
+    let offset = 0;
+    while (offset < frames) {
+      const length = Math.min(frames - offset, this.subblockLength - this.subblockFill);
+      for (let ch = 0; ch < this.numChannels; ch++) {
+        const data = channels[Math.min(ch, channels.length - 1)].subarray(offset, offset + length);
+        this.subblockEnergy += this.filterChannel(ch, data);
+        if (this.measureTruePeak) this.trackPeak(ch, data);
+      }
+      this.subblockFill += length;
+      offset += length;
+      if (this.subblockFill === this.subblockLength) this.completeSubblock();
+    }
+  }
+
+  private completeSubblock() {
+    this.subblocks.push(this.subblockEnergy / this.subblockLength);
+    if (this.subblocks.length > SHORT_TERM_SUBBLOCKS) this.subblocks.shift();
+    this.subblockEnergy = 0;
+    this.subblockFill = 0;
+
+    if (this.subblocks.length >= MOMENTARY_SUBBLOCKS) {
+      const energy = this.windowEnergy(MOMENTARY_SUBBLOCKS);
+      const lufs = energyToLufs(energy);
+      if (lufs > ABSOLUTE_GATE_LUFS) {
+        const bin = this.binOf(lufs);
+        this.binEnergy[bin] += energy;
+        this.binCount[bin]++;
+        this.gatedEnergy += energy;
+        this.gatedCount++;
+      }
+    }
+  }
+
+  /** Runs `data` through the channel's K-weighting filter and returns the summed squared output. */
+  private filterChannel(ch: number, data: Float32Array) {
+    const [shelf, highpass] = this.filters;
+    const s = this.filterState[ch];
+    let x1 = s[0], x2 = s[1], y1 = s[2], y2 = s[3];
+    let z1 = s[4], z2 = s[5], w1 = s[6], w2 = s[7];
+    let sum = 0;
+    for (let i = 0; i < data.length; i++) {
+      const x = data[i];
+      const y = shelf.b[0] * x + shelf.b[1] * x1 + shelf.b[2] * x2 - shelf.a[0] * y1 - shelf.a[1] * y2;
+      x2 = x1; x1 = x; y2 = y1; y1 = y;
+      const w = highpass.b[0] * y + highpass.b[1] * z1 + highpass.b[2] * z2 - highpass.a[0] * w1 - highpass.a[1] * w2;
+      z2 = z1; z1 = y; w2 = w1; w1 = w;
+      sum += w * w;
+    }
+    s[0] = x1; s[1] = x2; s[2] = y1; s[3] = y2;
+    s[4] = z1; s[5] = z2; s[6] = w1; s[7] = w2;
+    return sum;
+  }
+
+  private trackPeak(ch: number, data: Float32Array) {
+    const history = this.history[ch];
+    let peak = this.peak;
+    for (let i = 0; i < data.length; i++) {
+      history.copyWithin(1, 0, TAPS_PER_PHASE - 1);
+      history[0] = data[i];
+      for (const phase of this.phases) {
+        let y = 0;
+        for (let t = 0; t < TAPS_PER_PHASE; t++) y += phase[t] * history[t];
+        const abs = Math.abs(y);
+        if (abs > peak) peak = abs;
+      }
+    }
+    this.peak = peak;
+  }
+
+  private windowEnergy(subblocks: number) {
+    const recent = this.subblocks.slice(-subblocks);
+    return recent.reduce((a, b) => a + b, 0) / recent.length;
+  }
+
+  private windowLoudness(subblocks: number) {
+    return this.subblocks.length < subblocks ? -Infinity : energyToLufs(this.windowEnergy(subblocks));
+  }
+
+  private binOf(lufs: number) {
+    return Math.max(0, Math.min(HISTOGRAM_BINS - 1, Math.floor((lufs - ABSOLUTE_GATE_LUFS) * HISTOGRAM_BINS_PER_LU)));
+  }
+
+  /** Blocks in the bin holding the relative gate are all kept, an error of at most 0.1 LU on the gate. */
+  private integrated() {
+    if (this.gatedCount === 0) return -Infinity;
+    const threshold = energyToLufs(this.gatedEnergy / this.gatedCount) + RELATIVE_GATE_LU;
+    let sum = 0;
+    let count = 0;
+    for (let bin = this.binOf(threshold); bin < HISTOGRAM_BINS; bin++) {
+      sum += this.binEnergy[bin];
+      count += this.binCount[bin];
+    }
+    return count === 0 ? -Infinity : energyToLufs(sum / count);
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export interface MasterChainSettings {
+  eq: { bypass: boolean; lowGain: number; midGain: number; highGain: number };
+  reverb: { bypass: boolean; mix: number; decay: number; damping: number };
+  compressor: { bypass: boolean; threshold: number; ratio: number; attack: number; release: number };
+  limiter: { bypass: boolean; ceiling: number };
+}
+
+export type MasterStage = keyof MasterChainSettings;
+
+export const MASTER_STAGES: MasterStage[] = ["eq", "reverb", "compressor", "limiter"];
+
+export const DEFAULT_MASTER_SETTINGS: MasterChainSettings = {
+  eq: { bypass: true, lowGain: 0, midGain: 0, highGain: 0 },
+  reverb: { bypass: true, mix: 0.2, decay: 1.5, damping: 0.5 },
+  compressor: { bypass: true, threshold: -18, ratio: 3, attack: 0.01, release: 0.25 },
+  limiter: { bypass: false, ceiling: -1 },
+};
+
+export const MASTER_PRESETS: Record<"Room" | "Hall" | "Club", MasterChainSettings> = {
+  Room: {
+    eq: { bypass: false, lowGain: 1, midGain: 0, highGain: 1.5 },
+    reverb: { bypass: false, mix: 0.18, decay: 0.8, damping: 0.6 },
+    compressor: { bypass: false, threshold: -20, ratio: 2, attack: 0.02, release: 0.25 },
+    limiter: { bypass: false, ceiling: -1 },
+  },
+  Hall: {
+    eq: { bypass: false, lowGain: 2, midGain: -1.5, highGain: 2 },
+    reverb: { bypass: false, mix: 0.35, decay: 3.5, damping: 0.4 },
+    compressor: { bypass: false, threshold: -24, ratio: 2.5, attack: 0.03, release: 0.4 },
+    limiter: { bypass: false, ceiling: -1 },
+  },
+  Club: {
+    eq: { bypass: false, lowGain: 5, midGain: -2, highGain: 3 },
+    reverb: { bypass: false, mix: 0.08, decay: 0.6, damping: 0.7 },
+    compressor: { bypass: false, threshold: -16, ratio: 5, attack: 0.005, release: 0.12 },
+    limiter: { bypass: false, ceiling: -0.3 },
+  },
+};
+
+const LOW_SHELF_HZ = 200;
+const MID_PEAK_HZ = 1200;
+const HIGH_SHELF_HZ = 5000;
+
+function dbToGain(db: number) {
+  return Math.pow(10, db / 20);
+}
+
+/**
+ * Generates a stereo impulse response: decorrelated noise with an exponential
+ * decay reaching -60 dB at `decay` seconds, darkened over time by `damping`.
+ */
+export function generateImpulseResponse(ctx: BaseAudioContext, decay: number, damping: number): AudioBuffer {
+  const length = Math.max(1, Math.round(ctx.sampleRate * decay));
+  const ir = ctx.createBuffer(2, length, ctx.sampleRate);
+  for (let ch = 0; ch < 2; ch++) {
+    const data = ir.getChannelData(ch);
+    let lowpassed = 0;
+    for (let i = 0; i < length; i++) {
+      const t = i / length;
+      const noise = Math.random() * 2 - 1;
+      // The one-pole coefficient closes as the tail progresses, so highs die first.
+      const coefficient = 1 - damping * 0.95 * t;
+      lowpassed += coefficient * (noise - lowpassed);
+      data[i] = lowpassed * Math.exp(-6.9 * t);
+    }
+  }
+  return ir;
+}
+
+interface Stage {
+  input: AudioNode;
+  output: AudioNode;
+}
+
+/**
+ * The master effects chain: 3-band EQ → convolution reverb → compressor →
+ * brick-wall limiter. Bypassed stages are routed around rather than zeroed.
+ */
+export class MasterChain {
+  public readonly input: GainNode;
+  public readonly output: GainNode;
+
+  private readonly low: BiquadFilterNode;
+  private readonly mid: BiquadFilterNode;
+  private readonly high: BiquadFilterNode;
+  private readonly reverbIn: GainNode;
+  private readonly reverbOut: GainNode;
+  private readonly dry: GainNode;
+  private readonly wet: GainNode;
+  private readonly convolver: ConvolverNode;
+  private readonly compressor: DynamicsCompressorNode;
+  private readonly limiter: DynamicsCompressorNode;
+  private readonly clipper: WaveShaperNode;
+
+  private current: MasterChainSettings = structuredClone(DEFAULT_MASTER_SETTINGS);
+  private irKey = "";
+
+  constructor(private readonly ctx: BaseAudioContext) {
+    this.input = ctx.createGain();
+    this.output = ctx.createGain();
+
+    this.low = ctx.createBiquadFilter();
+    this.low.type = "lowshelf";
+    this.low.frequency.value = LOW_SHELF_HZ;
+    this.mid = ctx.createBiquadFilter();
+    this.mid.type = "peaking";
+    this.mid.frequency.value = MID_PEAK_HZ;
+    this.mid.Q.value = 0.8;
+    this.high = ctx.createBiquadFilter();
+    this.high.type = "highshelf";
+    this.high.frequency.value = HIGH_SHELF_HZ;
+    this.low.connect(this.mid);
+    this.mid.connect(this.high);
+
+    this.reverbIn = ctx.createGain();
+    this.reverbOut = ctx.createGain();
+    this.dry = ctx.createGain();
+    this.wet = ctx.createGain();
+    this.convolver = ctx.createConvolver();
+    this.reverbIn.connect(this.dry);
+    this.reverbIn.connect(this.convolver);
+    this.convolver.connect(this.wet);
+    this.dry.connect(this.reverbOut);
+    this.wet.connect(this.reverbOut);
+
+    this.compressor = ctx.createDynamicsCompressor();
+    this.compressor.knee.value = 6;
+
+    // A fast, hard-kneed compressor catches peaks; the clipper enforces the ceiling.
+    this.limiter = ctx.createDynamicsCompressor();
+    this.limiter.knee.value = 0;
+    this.limiter.ratio.value = 20;
+    this.limiter.attack.value = 0.001;
+    this.limiter.release.value = 0.05;
+    this.clipper = ctx.createWaveShaper();
+    this.clipper.oversample = "4x";
+    this.limiter.connect(this.clipper);
+
+    this.apply(this.current);
+    this.wire();
+  }
+
+  public get settings(): MasterChainSettings {
+    return structuredClone(this.current);
+  }
+
+  public apply(settings: MasterChainSettings) {
+    const previous = this.current;
+    this.current = structuredClone(settings);
+    const now = this.ctx.currentTime;
+    const { eq, reverb, compressor, limiter } = this.current;
+
+    this.low.gain.setTargetAtTime(eq.lowGain, now, 0.05);
+    this.mid.gain.setTargetAtTime(eq.midGain, now, 0.05);
+    this.high.gain.setTargetAtTime(eq.highGain, now, 0.05);
+
+    const irKey = `${reverb.decay.toFixed(2)}:${reverb.damping.toFixed(2)}`;
+    if (irKey !== this.irKey) {
+      this.convolver.buffer = generateImpulseResponse(this.ctx, reverb.decay, reverb.damping);
+      this.irKey = irKey;
+    }
+    // Equal-power crossfade between the dry and wet paths.
+    this.dry.gain.setTargetAtTime(Math.cos(reverb.mix * Math.PI / 2), now, 0.05);
+    this.wet.gain.setTargetAtTime(Math.sin(reverb.mix * Math.PI / 2), now, 0.05);
+
+    this.compressor.threshold.setTargetAtTime(compressor.threshold, now, 0.05);
+    this.compressor.ratio.setTargetAtTime(compressor.ratio, now, 0.05);
+    this.compressor.attack.setTargetAtTime(compressor.attack, now, 0.05);
+    this.compressor.release.setTargetAtTime(compressor.release, now, 0.05);
+
+    this.limiter.threshold.setTargetAtTime(limiter.ceiling, now, 0.05);
+    this.clipper.curve = this.makeClipCurve(dbToGain(limiter.ceiling));
+
+    const bypassChanged = MASTER_STAGES.some((stage) => previous[stage].bypass !== this.current[stage].bypass);
+    if (bypassChanged) this.wire();
+  }
+
+  /** Routes input → enabled stages → output. */
+  private wire() {
+    const stages: Record<MasterStage, Stage> = {
+      eq: { input: this.low, output: this.high },
+      reverb: { input: this.reverbIn, output: this.reverbOut },
+      compressor: { input: this.compressor, output: this.compressor },
+      limiter: { input: this.limiter, output: this.clipper },
+    };
+
+    this.input.disconnect();
+    for (const stage of MASTER_STAGES) stages[stage].output.disconnect();
+
+    let tail: AudioNode = this.input;
+    for (const stage of MASTER_STAGES) {
+      if (this.current[stage].bypass) continue;
+      tail.connect(stages[stage].input);
+      tail = stages[stage].output;
+    }
+    tail.connect(this.output);
+  }
+
+  private makeClipCurve(ceiling: number) {
+    const curve = new Float32Array(1025);
+    for (let i = 0; i < curve.length; i++) {
+      const x = (i / (curve.length - 1)) * 2 - 1;
+      curve[i] = Math.max(-ceiling, Math.min(ceiling, x));
+    }
+    return curve;
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { LiveMusicGenerationConfig } from "@google/genai";
+import type { Prompt } from "./types";
+
+export interface MotionFeatures {
+  /** Mean luma change between consecutive frames, scaled to 0–1. */
+  motion: number;
+  /** Mean luma, 0–1. */
+  brightness: number;
+  /** Shift of the mean color between consecutive frames, scaled to 0–1. */
+  colorChange: number;
+}
+
+export type MotionFeature = keyof MotionFeatures;
+export type ModulationTarget = "density" | "brightness" | "promptWeights";
+export type ModulationCurve = "linear" | "exponential" | "logarithmic" | "sCurve";
+
+export interface ModulationRoute {
+  source: MotionFeature;
+  curve: ModulationCurve;
+  /** 0 leaves the target alone, 1 hands it over entirely to the feature. */
+  amount: number;
+}
+
+export interface MotionSettings {
+  enabled: boolean;
+  /** Time constant of the feature smoothing, in seconds. */
+  smoothing: number;
+  routes: Record<ModulationTarget, ModulationRoute>;
+}
+
+export const MOTION_FEATURES: MotionFeature[] = ["motion", "brightness", "colorChange"];
+export const MODULATION_TARGETS: ModulationTarget[] = ["density", "brightness", "promptWeights"];
+export const MODULATION_CURVES: ModulationCurve[] = ["linear", "exponential", "logarithmic", "sCurve"];
+
+export const DEFAULT_MOTION_SETTINGS: MotionSettings = {
+  enabled: false,
+  smoothing: 0.5,
+  routes: {
+    density: { source: "motion", curve: "sCurve", amount: 0.6 },
+    brightness: { source: "brightness", curve: "linear", amount: 0.5 },
+    promptWeights: { source: "colorChange", curve: "exponential", amount: 0.4 },
+  },
+};
+
+const ANALYSIS_WIDTH = 64;
+const ANALYSIS_HEIGHT = 48;
+// Raw frame differences rarely exceed these, so they are stretched to fill 0–1.
+const MOTION_GAIN = 5;
+const COLOR_CHANGE_GAIN = 8;
+
+export function applyCurve(curve: ModulationCurve, x: number) {
+  const v = Math.max(0, Math.min(1, x));
+  switch (curve) {
+    case "exponential": return v * v;
+    case "logarithmic": return Math.sqrt(v);
+    case "sCurve": return v * v * (3 - 2 * v);
+    default: return v;
+  }
+}
+
+/**
+ * Frame-differencing analyzer over heavily downscaled frames, cheap enough
+ * to run several times a second alongside the camera preview.
+ */
+export class MotionAnalyzer {
+  private readonly canvas = document.createElement("canvas");
+  private readonly ctx: CanvasRenderingContext2D;
+  private previousLuma: Float32Array | null = null;
+  private previousColor: [number, number, number] | null = null;
+  private smoothed: MotionFeatures = { motion: 0, brightness: 0, colorChange: 0 };
+  private lastTime = 0;
+
+  constructor() {
+    this.canvas.width = ANALYSIS_WIDTH;
+    this.canvas.height = ANALYSIS_HEIGHT;
+    this.ctx = this.canvas.getContext("2d", { willReadFrequently: true })!;
+  }
+
+  public get features(): MotionFeatures {
+    return { ...this.smoothed };
+  }
+
+  public reset() {
+    this.previousLuma = null;
+    this.previousColor = null;
+    this.smoothed = { motion: 0, brightness: 0, colorChange: 0 };
+    this.lastTime = 0;
+  }
+
+  /** Analyzes one frame and returns the features smoothed with time constant `smoothing` seconds. */
+  public analyze(source: CanvasImageSource, smoothing: number, now = performance.now()): MotionFeatures {
+    this.ctx.drawImage(source, 0, 0, ANALYSIS_WIDTH, ANALYSIS_HEIGHT);
+    const { data } = this.ctx.getImageData(0, 0, ANALYSIS_WIDTH, ANALYSIS_HEIGHT);
+    const pixels = ANALYSIS_WIDTH * ANALYSIS_HEIGHT;
+    const luma = new Float32Array(pixels);
+    let r = 0, g = 0, b = 0, lumaSum = 0, diffSum = 0;
+    for (let i = 0; i < pixels; i++) {
+      const [pr, pg, pb] = [data[i * 4], data[i * 4 + 1], data[i * 4 + 2]];
+      luma[i] = (0.2126 * pr + 0.7152 * pg + 0.0722 * pb) / 255;
+      lumaSum += luma[i];
+      r += pr; g += pg; b += pb;
+      if (this.previousLuma) diffSum += Math.abs(luma[i] - this.previousLuma[i]);
+    }
+    const color: [number, number, number] = [r / pixels / 255, g / pixels / 255, b / pixels / 255];
+    const colorShift = this.previousColor ? Math.hypot(...color.map((c, i) => c - this.previousColor![i])) : 0;
+
+    const raw: MotionFeatures = {
+      motion: Math.min(1, (diffSum / pixels) * MOTION_GAIN),
+      brightness: lumaSum / pixels,
+      colorChange: Math.min(1, colorShift * COLOR_CHANGE_GAIN),
+    };
+    this.previousLuma = luma;
+    this.previousColor = color;
+
+    const dt = this.lastTime ? (now - this.lastTime) / 1000 : Infinity;
+    this.lastTime = now;
+    const alpha = smoothing > 0 ? 1 - Math.exp(-dt / smoothing) : 1;
+    for (const key of MOTION_FEATURES) this.smoothed[key] += (raw[key] - this.smoothed[key]) * alpha;
+    return this.features;
+  }
+}
+
+/** Blends `base` toward the routed feature by the route's amount. */
+function modulate(route: ModulationRoute, features: MotionFeatures, base: number) {
+  return base * (1 - route.amount) + applyCurve(route.curve, features[route.source]) * route.amount;
+}
+
+export function modulateGenerationConfig(
+  settings: MotionSettings,
+  features: MotionFeatures,
+  base: Partial<LiveMusicGenerationConfig>,
+): Partial<LiveMusicGenerationConfig> {
+  const { density, brightness } = settings.routes;
+  return {
+    density: Number(modulate(density, features, base.density ?? 0.5).toFixed(2)),
+    brightness: Number(modulate(brightness, features, base.brightness ?? 0.5).toFixed(2)),
+  };
+}
+
+/**
+ * Tilts emphasis across the prompt list: a low feature value favours the
+ * first prompts, a high one the last. Lyria normalizes weights, so a uniform
+ * scale would have no audible effect.
+ */
+export function modulatePromptWeights(settings: MotionSettings, features: MotionFeatures, prompts: Prompt[]): Prompt[] {
+  const route = settings.routes.promptWeights;
+  if (prompts.length < 2 || route.amount === 0) return prompts;
+  const focus = applyCurve(route.curve, features[route.source]);
+  return prompts.map((p, i) => {
+    const emphasis = 1 - Math.abs(i / (prompts.length - 1) - focus);
+    return { ...p, weight: p.weight * (1 - route.amount + route.amount * emphasis) };
+  });
+}
@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  GoogleGenAI,
+  LiveMusicPlaybackControl,
+  type LiveMusicServerMessage,
+  type LiveMusicSetConfigParameters,
+  type LiveMusicSetWeightedPromptsParameters,
+} from "@google/genai";
+
+/** The subset of a Lyria server message the playback pipeline reads. */
+export type MusicServerMessage = Pick<LiveMusicServerMessage, "setupComplete" | "serverContent" | "filteredPrompt">;
+
+export interface MusicBackendCallbacks {
+  onopen?: () => void;
+  onmessage: (e: MusicServerMessage) => void;
+  onerror?: (e: Event) => void;
+  onclose?: (e: CloseEvent) => void;
+}
+
+/** A live, steerable music generation session. `LiveMusicSession` satisfies this shape. */
+export interface MusicSession {
+  setWeightedPrompts(params: LiveMusicSetWeightedPromptsParameters): Promise<void>;
+  setMusicGenerationConfig(params: LiveMusicSetConfigParameters): Promise<void>;
+  play(): void;
+  pause(): void;
+  stop(): void;
+  resetContext(): void;
+  close(): void;
+}
+
+export interface MusicBackend {
+  readonly name: string;
+  connect(callbacks: MusicBackendCallbacks): Promise<MusicSession>;
+}
+
+export type MusicBackendKind = "gemini" | "local";
+
+/** Streams from Lyria RealTime through the Gemini Live Music API. */
+export class GeminiMusicBackend implements MusicBackend {
+  readonly name = "gemini";
+
+  constructor(
+    private readonly apiKey: string,
+    private readonly model: string,
+  ) {}
+
+  async connect(callbacks: MusicBackendCallbacks): Promise<MusicSession> {
+    const ai = new GoogleGenAI({ apiKey: this.apiKey });
+    const session = await ai.live.music.connect({
+      model: this.model,
+      callbacks: {
+        onmessage: callbacks.onmessage,
+        onerror: callbacks.onerror,
+        onclose: callbacks.onclose,
+      },
+    });
+    // The SDK resolves once the socket is open but never calls `onopen` itself.
+    callbacks.onopen?.();
+    return session;
+  }
+}
+
+/**
+ * Speaks the Lyria wire protocol to a local stand-in server (see
+ * `server/music_stand_in.ts`), so playback can be developed without a live session.
+ */
+export class LocalMusicBackend implements MusicBackend {
+  readonly name = "local";
+
+  constructor(private readonly url: string) {}
+
+  connect(callbacks: MusicBackendCallbacks): Promise<MusicSession> {
+    return new Promise((resolve, reject) => {
+      const ws = new WebSocket(this.url);
+      let opened = false;
+
+      ws.onopen = () => {
+        opened = true;
+        ws.send(JSON.stringify({ setup: { model: "local-stand-in" } }));
+        callbacks.onopen?.();
+        resolve(new LocalMusicSession(ws));
+      };
+      ws.onmessage = (e: MessageEvent<string>) => {
+        try {
+          callbacks.onmessage(JSON.parse(e.data) as MusicServerMessage);
+        } catch (err) {
+          console.warn("Malformed stand-in message:", err);
+        }
+      };
+      ws.onerror = (e) => {
+        if (!opened) reject(new Error(`Could not reach music stand-in at ${this.url}`));
+        callbacks.onerror?.(e);
+      };
+      ws.onclose = (e) => callbacks.onclose?.(e);
+    });
+  }
+}
+
+class LocalMusicSession implements MusicSession {
+  constructor(private readonly ws: WebSocket) {}
+
+  async setWeightedPrompts(params: LiveMusicSetWeightedPromptsParameters) {
+    this.send({ clientContent: { weightedPrompts: params.weightedPrompts } });
+  }
+
+  async setMusicGenerationConfig(params: LiveMusicSetConfigParameters) {
+    this.send({ musicGenerationConfig: params.musicGenerationConfig });
+  }
+
+  play() { this.send({ playbackControl: LiveMusicPlaybackControl.PLAY }); }
+  pause() { this.send({ playbackControl: LiveMusicPlaybackControl.PAUSE }); }
+  stop() { this.send({ playbackControl: LiveMusicPlaybackControl.STOP }); }
+  resetContext() { this.send({ playbackControl: LiveMusicPlaybackControl.RESET_CONTEXT }); }
+  close() { this.ws.close(); }
+
+  private send(message: object) {
+    if (this.ws.readyState !== WebSocket.OPEN) return;
+    this.ws.send(JSON.stringify(message));
+  }
+}
+
+export function createMusicBackend(kind: MusicBackendKind, options: { apiKey: string; model: string; standInUrl: string }): MusicBackend {
+  if (kind === "local") return new LocalMusicBackend(options.standInUrl);
+  return new GeminiMusicBackend(options.apiKey, options.model);
+}
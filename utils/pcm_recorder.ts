@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { encodeAudio, type AudioExportFormat, type AudioTags } from "./audio_export";
+import { LoudnessMeter } from "./loudness_meter";
+
+/**
+ * Collects PCM as it streams in, for lossless export. Chunks are kept as-is
+ * and only concatenated when the take is exported.
+ */
+export class PcmRecorder {
+  private chunks: Float32Array[][] = [];
+  private frames = 0;
+
+  constructor(
+    public readonly sampleRate: number,
+    public readonly numChannels: number,
+  ) {}
+
+  public get duration() {
+    return this.frames / this.sampleRate;
+  }
+
+  /** Takes ownership of `channels`; callers must not reuse the arrays. */
+  public appendChannels(channels: Float32Array[]) {
+    if (channels.length === 0) return;
+    // Mono input is duplicated across channels rather than dropped.
+    this.chunks.push(Array.from({ length: this.numChannels }, (_, ch) => channels[Math.min(ch, channels.length - 1)]));
+    this.frames += channels[0].length;
+  }
+
+  /** Encodes the take, optionally trimmed to its first `maxSeconds`. */
+  public export(format: AudioExportFormat, tags: AudioTags = {}, maxSeconds = Infinity): Blob {
+    return encodeAudio(format, this.collect(maxSeconds), this.sampleRate, tags);
+  }
+
+  /** Integrated loudness of the take in LUFS, over the same span `export` would keep. */
+  public integratedLoudness(maxSeconds = Infinity): number {
+    const meter = new LoudnessMeter(this.sampleRate, this.numChannels, { truePeak: false });
+    let remaining = Math.min(this.frames, Math.round(maxSeconds * this.sampleRate));
+    for (const chunk of this.chunks) {
+      if (remaining <= 0) break;
+      const length = Math.min(chunk[0].length, remaining);
+      meter.push(chunk.map((data) => data.subarray(0, length)));
+      remaining -= length;
+    }
+    return meter.measurement.integrated;
+  }
+
+  private collect(maxSeconds: number) {
+    const frames = Math.min(this.frames, Math.round(maxSeconds * this.sampleRate));
+    const channels = Array.from({ length: this.numChannels }, () => new Float32Array(frames));
+    let offset = 0;
+    for (const chunk of this.chunks) {
+      if (offset >= frames) break;
+      const length = Math.min(chunk[0].length, frames - offset);
+      chunk.forEach((data, ch) => channels[ch].set(data.subarray(0, length), offset));
+      offset += length;
+    }
+    return channels;
+  }
+}
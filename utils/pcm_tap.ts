@@ -0,0 +1,136 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+const PROCESSOR_NAME = "pcm-tap";
+
+// Inlined so the worklet loads without a separate bundled asset. It batches
+// render quanta into 4096-frame blocks to keep port traffic low.
+const PROCESSOR_SOURCE = `
+class PcmTapProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.numChannels = options.processorOptions.numChannels;
+    this.blockSize = 4096;
+    this.active = false;
+    this.reset();
+    this.port.onmessage = (e) => {
+      if (e.data.flush !== undefined) {
+        this.flush();
+        this.port.postMessage({ flushed: e.data.flush });
+        return;
+      }
+      if (!e.data.active) this.flush();
+      this.active = e.data.active;
+    };
+  }
+  reset() {
+    this.block = Array.from({ length: this.numChannels }, () => new Float32Array(this.blockSize));
+    this.filled = 0;
+  }
+  flush() {
+    if (this.filled === 0) return;
+    this.port.postMessage(this.block.map((ch) => ch.slice(0, this.filled)));
+    this.reset();
+  }
+  process(inputs) {
+    const input = inputs[0];
+    if (!this.active) return true;
+    // With nothing connected upstream (an underrun between chunks) the input has
+    // no channels; that quantum is silence, and a take must keep its length.
+    const frames = input.length > 0 ? input[0].length : 128;
+    for (let ch = 0; ch < this.numChannels; ch++) {
+      if (input.length > 0) this.block[ch].set(input[Math.min(ch, input.length - 1)], this.filled);
+      else this.block[ch].fill(0, this.filled, this.filled + frames);
+    }
+    this.filled += frames;
+    if (this.filled + frames > this.blockSize) this.flush();
+    return true;
+  }
+}
+registerProcessor("${PROCESSOR_NAME}", PcmTapProcessor);
+`;
+
+// A processor name can only be registered once per context, so taps share the module.
+const modules = new WeakMap<BaseAudioContext, Promise<void>>();
+// A suspended context may never answer a flush, so give up waiting after this long.
+const FLUSH_TIMEOUT_MS = 500;
+
+function loadModule(ctx: BaseAudioContext) {
+  let loading = modules.get(ctx);
+  if (!loading) {
+    const url = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: "application/javascript" }));
+    loading = ctx.audioWorklet.addModule(url).finally(() => URL.revokeObjectURL(url));
+    modules.set(ctx, loading);
+  }
+  return loading;
+}
+
+/**
+ * Copies the PCM flowing through `source` back to the main thread while
+ * active. The worklet is loaded up front so a take can start immediately.
+ */
+export class PcmTap {
+  private node: AudioWorkletNode | null = null;
+  private active = false;
+  private nextFlushId = 0;
+  private pendingFlushes = new Map<number, () => void>();
+
+  constructor(
+    private readonly ctx: AudioContext,
+    private readonly source: AudioNode,
+    private readonly numChannels: number,
+    private readonly onData: (channels: Float32Array[]) => void,
+  ) {
+    void this.load();
+  }
+
+  private async load() {
+    try {
+      await loadModule(this.ctx);
+      this.node = new AudioWorkletNode(this.ctx, PROCESSOR_NAME, {
+        numberOfInputs: 1,
+        numberOfOutputs: 1,
+        channelCount: this.numChannels,
+        channelCountMode: "explicit",
+        processorOptions: { numChannels: this.numChannels },
+      });
+      this.node.port.onmessage = (e: MessageEvent<Float32Array[] | { flushed: number }>) => {
+        if (Array.isArray(e.data)) this.onData(e.data);
+        else this.settleFlush(e.data.flushed);
+      };
+      this.source.connect(this.node);
+      // The output stays silent; connecting it keeps the node in the render graph.
+      this.node.connect(this.ctx.destination);
+      if (this.active) this.node.port.postMessage({ active: true });
+    } catch (e) {
+      console.error("PCM tap failed to load:", e);
+    }
+  }
+
+  public setActive(active: boolean) {
+    if (this.active === active) return;
+    this.active = active;
+    this.node?.port.postMessage({ active });
+  }
+
+  /**
+   * Resolves once the worklet's partial block has been handed to `onData`.
+   * Port messages arrive in order, so everything rendered before the call comes first.
+   */
+  public flush(): Promise<void> {
+    if (!this.node) return Promise.resolve();
+    const id = this.nextFlushId++;
+    return new Promise((resolve) => {
+      this.pendingFlushes.set(id, resolve);
+      this.node!.port.postMessage({ flush: id });
+      setTimeout(() => this.settleFlush(id), FLUSH_TIMEOUT_MS);
+    });
+  }
+
+  private settleFlush(id: number) {
+    this.pendingFlushes.get(id)?.();
+    this.pendingFlushes.delete(id);
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** A saved revision of a template body. */
+export interface PromptTemplateVersion {
+  version: number;
+  body: string;
+  savedAt: number;
+}
+
+/** A named system prompt sent with every analyzed frame. Stored in IndexedDB. */
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  body: string;
+  version: number;
+  updatedAt: number;
+  /** Earlier revisions, newest first, capped at `MAX_TEMPLATE_HISTORY`. */
+  history: PromptTemplateVersion[];
+}
+
+/** Values substituted for `{{name}}` placeholders when a template is rendered. */
+export interface PromptVariables {
+  language: string;
+  previousPrompts: string;
+  previousScene: string;
+  sourceType: string;
+  frameContext: string;
+  userStyleHint: string;
+}
+
+export const PROMPT_VARIABLES: (keyof PromptVariables)[] = ["language", "previousPrompts", "previousScene", "sourceType", "frameContext", "userStyleHint"];
+
+export const DEFAULT_TEMPLATE_ID = "default";
+const MAX_TEMPLATE_HISTORY = 20;
+const EXPORT_FORMAT = "sonar-prompt-templates";
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+// Shorter, punchier prompts are better for the experimental music engine.
+const DEFAULT_TEMPLATE_BODY =
+  "You are a music curator. The images come from {{sourceType}}. {{frameContext}} Analyze the scene and describe it as JSON: a one-sentence description, its mood, its energy from 0 to 1, a fitting BPM range, a key if one suggests itself, and the instruments you hear in it. Write the description and mood in {{language}}. Then output 3 distinct musical 'vibes' as prompts, each weighted 0.1-1 by how strongly it fits. Each vibe must be 3-5 English keywords only. Include Style, Main Instrument, and BPM. Example: 'Lo-fi, Piano, 80bpm', 'Techno, Acid Synth, 130bpm', 'Ambient, Orchestral, 60bpm'. Keep it minimal and atmospheric. Last time the scene was: {{previousScene}}. Describe how it has evolved since. The vibes currently playing are: {{previousPrompts}}. Keep the music coherent by evolving from them rather than jumping to an unrelated style. The listener's style hint: {{userStyleHint}}.";
+
+export function createDefaultTemplate(): PromptTemplate {
+  return { id: DEFAULT_TEMPLATE_ID, name: "Sonar Default", body: DEFAULT_TEMPLATE_BODY, version: 1, updatedAt: 0, history: [] };
+}
+
+export function createTemplate(name: string, body: string): PromptTemplate {
+  return { id: crypto.randomUUID(), name, body, version: 1, updatedAt: Date.now(), history: [] };
+}
+
+/** Fills in known placeholders. Unknown ones are left as written so typos stay visible. */
+export function renderPromptTemplate(body: string, variables: PromptVariables) {
+  return body.replace(PLACEHOLDER, (match, name: string) =>
+    (PROMPT_VARIABLES as string[]).includes(name) ? variables[name as keyof PromptVariables] : match,
+  );
+}
+
+export function findUnknownVariables(body: string) {
+  const names = [...body.matchAll(PLACEHOLDER)].map((m) => m[1]);
+  return [...new Set(names.filter((name) => !(PROMPT_VARIABLES as string[]).includes(name)))];
+}
+
+/** Returns the template with `body` as a new version, keeping the current one in history. */
+export function reviseTemplate(template: PromptTemplate, body: string): PromptTemplate {
+  if (body === template.body) return template;
+  const previous = { version: template.version, body: template.body, savedAt: template.updatedAt };
+  return {
+    ...template,
+    body,
+    version: template.version + 1,
+    updatedAt: Date.now(),
+    history: [previous, ...template.history].slice(0, MAX_TEMPLATE_HISTORY),
+  };
+}
+
+export function exportTemplates(templates: PromptTemplate[]) {
+  return JSON.stringify({ format: EXPORT_FORMAT, version: 1, templates }, null, 2);
+}
+
+/**
+ * Reads templates from an export file. Imported templates get fresh ids so
+ * they never overwrite local ones; their history comes with them.
+ */
+export function parseTemplateImport(text: string): PromptTemplate[] {
+  const json = JSON.parse(text);
+  if (json?.format !== EXPORT_FORMAT || !Array.isArray(json.templates)) {
+    throw new Error("Not a prompt template export");
+  }
+  return json.templates
+    .filter((t: any) => typeof t?.name === "string" && typeof t?.body === "string")
+    .map((t: any) => ({
+      ...createTemplate(t.name, t.body),
+      version: Number.isInteger(t.version) && t.version > 0 ? t.version : 1,
+      history: Array.isArray(t.history)
+        ? t.history
+            .filter((v: any) => Number.isInteger(v?.version) && typeof v?.body === "string")
+            .map((v: any) => ({ version: v.version, body: v.body, savedAt: Number(v.savedAt) || 0 }))
+            .slice(0, MAX_TEMPLATE_HISTORY)
+        : [],
+    }));
+}
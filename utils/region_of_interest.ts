@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** A rectangle in source coordinates, each value 0–1 of the frame's width or height. */
+export interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Where an `object-fit: cover` source is drawn within its container, in CSS pixels. */
+export interface CoverLayout {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export const FULL_REGION: Region = { x: 0, y: 0, width: 1, height: 1 };
+// Smaller regions leave too few pixels to say anything about the scene.
+export const MIN_REGION_SIZE = 0.05;
+
+export function isFullRegion(region: Region) {
+  return region.x <= 0 && region.y <= 0 && region.width >= 1 && region.height >= 1;
+}
+
+/** Clamps a region into the frame, enforcing `MIN_REGION_SIZE` and flipping negative extents. */
+export function normalizeRegion(region: Region): Region {
+  let { x, y, width, height } = region;
+  if (width < 0) { x += width; width = -width; }
+  if (height < 0) { y += height; height = -height; }
+  width = Math.min(1, Math.max(MIN_REGION_SIZE, width));
+  height = Math.min(1, Math.max(MIN_REGION_SIZE, height));
+  x = Math.min(1 - width, Math.max(0, x));
+  y = Math.min(1 - height, Math.max(0, y));
+  return { x, y, width, height };
+}
+
+export function coverLayout(containerWidth: number, containerHeight: number, sourceWidth: number, sourceHeight: number): CoverLayout {
+  const scale = Math.max(containerWidth / sourceWidth, containerHeight / sourceHeight);
+  const width = sourceWidth * scale;
+  const height = sourceHeight * scale;
+  return { left: (containerWidth - width) / 2, top: (containerHeight - height) / 2, width, height };
+}
+
+/** The region in source pixels, rounded and at least one pixel in each direction. */
+export function regionToPixels(region: Region, sourceWidth: number, sourceHeight: number) {
+  const sx = Math.round(region.x * sourceWidth);
+  const sy = Math.round(region.y * sourceHeight);
+  return {
+    sx,
+    sy,
+    sw: Math.max(1, Math.min(sourceWidth - sx, Math.round(region.width * sourceWidth))),
+    sh: Math.max(1, Math.min(sourceHeight - sy, Math.round(region.height * sourceHeight))),
+  };
+}
@@ -0,0 +1,264 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export interface QuotaSettings {
+  requestsPerMinute: number;
+  requestsPerDay: number;
+}
+
+/** Manual captures jump ahead of timed ones. */
+export type RequestPriority = "manual" | "timed";
+
+export type SchedulerState =
+  | "ready" // a request may start now
+  | "throttled" // the per-minute bucket is empty
+  | "exhausted" // the per-day bucket is empty
+  | "coolingDown"; // the provider rate-limited us
+
+export interface SchedulerStatus {
+  state: SchedulerState;
+  minuteRemaining: number;
+  dayRemaining: number;
+  /** `Date.now()` time at which the next request may start; now or earlier when ready. */
+  nextAllowedAt: number;
+  queued: number;
+}
+
+// Gemini 2.5 Flash free-tier limits.
+export const DEFAULT_QUOTA: QuotaSettings = { requestsPerMinute: 10, requestsPerDay: 250 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+// Without a Retry-After, cooldowns start here and double per consecutive rate limit.
+const BASE_COOLDOWN_MS = 12000;
+const MAX_COOLDOWN_MS = 5 * 60 * 1000;
+const STATUS_TICK_MS = 1000;
+
+/** A provider refused the request for quota reasons. */
+export class RateLimitError extends Error {
+  constructor(
+    message: string,
+    /** How long the provider asked us to wait, if it said. */
+    public readonly retryAfterMs: number | null = null,
+  ) {
+    super(message);
+    this.name = "RateLimitError";
+  }
+}
+
+/** A queued request was dropped before it started. */
+export class RequestCancelledError extends Error {
+  constructor() {
+    super("Request cancelled");
+    this.name = "RequestCancelledError";
+  }
+}
+
+/** Parses an HTTP `Retry-After` header: delay seconds or an HTTP date. */
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/** Recognizes rate limits from typed errors and, failing that, from the message. */
+export function isRateLimit(e: unknown) {
+  if (e instanceof RateLimitError) return true;
+  const message = String((e as Error)?.message ?? e);
+  return message.includes("429") || message.includes("Too Many Requests") || message.toLowerCase().includes("rate limit") || message.includes("RESOURCE_EXHAUSTED");
+}
+
+/** A bucket's level at a moment, as persisted between page loads. */
+interface BucketSnapshot {
+  tokens: number;
+  updatedAt: number;
+}
+
+class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(
+    private capacity: number,
+    private periodMs: number,
+  ) {
+    this.tokens = capacity;
+  }
+
+  public setCapacity(capacity: number) {
+    this.refill();
+    this.tokens = Math.min(capacity, this.tokens + Math.max(0, capacity - this.capacity));
+    this.capacity = capacity;
+  }
+
+  public get available() {
+    this.refill();
+    return this.tokens;
+  }
+
+  /** Milliseconds until a whole token is available. */
+  public get waitMs() {
+    const missing = 1 - this.available;
+    return missing <= 0 ? 0 : (missing * this.periodMs) / this.capacity;
+  }
+
+  public take() {
+    this.refill();
+    this.tokens -= 1;
+  }
+
+  public get snapshot(): BucketSnapshot {
+    return { tokens: this.tokens, updatedAt: this.updatedAt };
+  }
+
+  /** Picks up from a saved level; the time since it was saved refills as usual. */
+  public restore(snapshot: BucketSnapshot) {
+    if (!Number.isFinite(snapshot.tokens) || !Number.isFinite(snapshot.updatedAt)) return;
+    this.tokens = Math.min(this.capacity, snapshot.tokens);
+    this.updatedAt = Math.min(Date.now(), snapshot.updatedAt);
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.updatedAt) * this.capacity) / this.periodMs);
+    this.updatedAt = now;
+  }
+}
+
+interface QueuedRequest {
+  priority: RequestPriority;
+  resolve: () => void;
+  reject: (e: Error) => void;
+}
+
+/**
+ * Hands out permission to call a rate-limited provider. Two token buckets
+ * model the per-minute and per-day budgets; a rate-limit response puts the
+ * scheduler into a cooldown that honors Retry-After or backs off
+ * exponentially. Waiting requests form a queue in which manual requests
+ * overtake timed ones. Dispatches "status" after every change, and every
+ * second while requests have to wait. With a `storageKey`, the day budget is
+ * kept in localStorage so a reload doesn't hand it out again.
+ */
+export class RequestScheduler extends EventTarget {
+  private minute: TokenBucket;
+  private day: TokenBucket;
+  private queue: QueuedRequest[] = [];
+  private cooldownUntil = 0;
+  private consecutiveRateLimits = 0;
+  private tickTimeout: number | null = null;
+
+  constructor(
+    private quota: QuotaSettings = DEFAULT_QUOTA,
+    private readonly storageKey: string | null = null,
+  ) {
+    super();
+    this.minute = new TokenBucket(quota.requestsPerMinute, MINUTE_MS);
+    this.day = new TokenBucket(quota.requestsPerDay, DAY_MS);
+    if (storageKey) {
+      try {
+        const saved = JSON.parse(localStorage.getItem(storageKey) || "null");
+        if (saved) this.day.restore({ tokens: Number(saved.tokens), updatedAt: Number(saved.updatedAt) });
+      } catch (e) {}
+    }
+  }
+
+  public get settings() {
+    return { ...this.quota };
+  }
+
+  public setQuota(quota: QuotaSettings) {
+    this.quota = { ...quota };
+    this.minute.setCapacity(quota.requestsPerMinute);
+    this.day.setCapacity(quota.requestsPerDay);
+    this.update();
+  }
+
+  public get status(): SchedulerStatus {
+    const now = Date.now();
+    const waitMs = this.waitMs;
+    return {
+      state: this.state,
+      minuteRemaining: Math.floor(this.minute.available),
+      dayRemaining: Math.floor(this.day.available),
+      nextAllowedAt: now + waitMs,
+      queued: this.queue.length,
+    };
+  }
+
+  /** How long a request made now would have to wait, ignoring the queue. */
+  public get waitMs() {
+    return Math.max(this.cooldownUntil - Date.now(), this.minute.waitMs, this.day.waitMs, 0);
+  }
+
+  private get state(): SchedulerState {
+    if (Date.now() < this.cooldownUntil) return "coolingDown";
+    if (this.day.available < 1) return "exhausted";
+    if (this.minute.available < 1) return "throttled";
+    return "ready";
+  }
+
+  /**
+   * Resolves once a request of this priority may start, consuming quota. The
+   * caller must follow up with `reportSuccess` or `reportRateLimit`.
+   */
+  public acquire(priority: RequestPriority): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const request = { priority, resolve, reject };
+      // Manual requests go after other manual ones but ahead of every timed one.
+      const index = priority === "manual" ? this.queue.findIndex((r) => r.priority === "timed") : -1;
+      if (index === -1) this.queue.push(request);
+      else this.queue.splice(index, 0, request);
+      this.update();
+    });
+  }
+
+  /** Rejects every waiting request of the given priority with `RequestCancelledError`. */
+  public cancel(priority: RequestPriority) {
+    const dropped = this.queue.filter((r) => r.priority === priority);
+    this.queue = this.queue.filter((r) => r.priority !== priority);
+    dropped.forEach((r) => r.reject(new RequestCancelledError()));
+    if (dropped.length > 0) this.update();
+  }
+
+  public reportSuccess() {
+    this.consecutiveRateLimits = 0;
+  }
+
+  /** Enters cooldown for the provider's Retry-After, or an exponential backoff without one. */
+  public reportRateLimit(retryAfterMs: number | null) {
+    this.consecutiveRateLimits++;
+    const backoff = Math.min(MAX_COOLDOWN_MS, BASE_COOLDOWN_MS * 2 ** (this.consecutiveRateLimits - 1));
+    this.cooldownUntil = Date.now() + (retryAfterMs ?? backoff);
+    this.update();
+  }
+
+  public dispose() {
+    this.cancel("manual");
+    this.cancel("timed");
+    if (this.tickTimeout) clearTimeout(this.tickTimeout);
+    this.tickTimeout = null;
+  }
+
+  /** Starts whatever the buckets allow, then reschedules itself while anything has to wait. */
+  private update() {
+    if (this.tickTimeout) clearTimeout(this.tickTimeout);
+    this.tickTimeout = null;
+
+    let granted = false;
+    while (this.queue.length > 0 && this.state === "ready") {
+      this.minute.take();
+      this.day.take();
+      this.queue.shift()!.resolve();
+      granted = true;
+    }
+    if (granted && this.storageKey) localStorage.setItem(this.storageKey, JSON.stringify(this.day.snapshot));
+
+    this.dispatchEvent(new CustomEvent<SchedulerStatus>("status", { detail: this.status }));
+    if (this.state !== "ready") this.tickTimeout = window.setTimeout(() => this.update(), Math.min(STATUS_TICK_MS, Math.max(50, this.waitMs)));
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export interface RetryPolicy {
+  /** Reconnect attempts before giving up for good. */
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  multiplier: number;
+  /** Fraction of each delay that is randomized, from 0 (none) to 1 (full jitter). */
+  jitter: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  multiplier: 2,
+  jitter: 0.5,
+};
+
+/** Delay before the given (1-based) attempt: exponential, capped, then jittered downwards. */
+export function getRetryDelay(policy: RetryPolicy, attempt: number, random = Math.random): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * policy.multiplier ** Math.max(0, attempt - 1));
+  const jitter = exponential * Math.max(0, Math.min(1, policy.jitter));
+  return Math.round(exponential - jitter + random() * jitter);
+}
@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Scale, Type, type LiveMusicGenerationConfig, type Schema } from "@google/genai";
+import { SCALE_OPTIONS } from "./constants";
+import type { Prompt } from "./types";
+
+/** What the vision model tells us about a frame, beyond the prompts themselves. */
+export interface SceneAnalysis {
+  description: string;
+  mood: string;
+  /** 0 (still, sparse) to 1 (frantic, dense). */
+  energy: number;
+  bpmRange: { min: number; max: number };
+  /** null when the model has no opinion on key. */
+  scale: Scale | null;
+  instruments: string[];
+  prompts: Prompt[];
+}
+
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+const MIN_PROMPT_WEIGHT = 0.1;
+
+export const SCENE_ANALYSIS_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    description: { type: Type.STRING, description: "One sentence describing the scene." },
+    mood: { type: Type.STRING, description: "One or two words." },
+    energy: { type: Type.NUMBER, description: "0 for still and calm, 1 for frantic and dense." },
+    bpmMin: { type: Type.INTEGER, description: `Lowest fitting tempo, ${MIN_BPM}-${MAX_BPM}.` },
+    bpmMax: { type: Type.INTEGER, description: `Highest fitting tempo, ${MIN_BPM}-${MAX_BPM}.` },
+    scale: {
+      type: Type.STRING,
+      enum: [Scale.SCALE_UNSPECIFIED, ...SCALE_OPTIONS.map((o) => o.value)],
+      description: "Key as a relative major/minor pair, or SCALE_UNSPECIFIED.",
+    },
+    instruments: { type: Type.ARRAY, items: { type: Type.STRING } },
+    prompts: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          text: { type: Type.STRING },
+          weight: { type: Type.NUMBER, description: "0.1 to 1, how strongly this vibe should come through." },
+        },
+        required: ["text", "weight"],
+      },
+    },
+  },
+  required: ["description", "mood", "energy", "bpmMin", "bpmMax", "scale", "instruments", "prompts"],
+};
+
+function clamp(value: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, value));
+}
+
+function asNumber(value: unknown, fallback: number) {
+  return typeof value === "number" && Number.isFinite(value) ? value : fallback;
+}
+
+/**
+ * Normalizes a model response into a `SceneAnalysis`, clamping numbers into
+ * range and tolerating the older `{ prompts: string[] }` shape.
+ */
+export function parseSceneAnalysis(json: any): SceneAnalysis {
+  const prompts: Prompt[] = (Array.isArray(json?.prompts) ? json.prompts : [])
+    .map((p: any) => (typeof p === "string" ? { text: p, weight: 1 } : { text: String(p?.text ?? ""), weight: asNumber(p?.weight, 1) }))
+    .filter((p: Prompt) => p.text.trim().length > 0)
+    .map((p: Prompt) => ({ text: p.text.trim(), weight: clamp(p.weight, MIN_PROMPT_WEIGHT, 1) }));
+
+  const a = clamp(Math.round(asNumber(json?.bpmMin, 90)), MIN_BPM, MAX_BPM);
+  const b = clamp(Math.round(asNumber(json?.bpmMax, a)), MIN_BPM, MAX_BPM);
+  const scale = SCALE_OPTIONS.find((o) => o.value === json?.scale)?.value ?? null;
+
+  return {
+    description: String(json?.description ?? ""),
+    mood: String(json?.mood ?? ""),
+    energy: clamp(asNumber(json?.energy, 0.5), 0, 1),
+    bpmRange: { min: Math.min(a, b), max: Math.max(a, b) },
+    scale,
+    instruments: Array.isArray(json?.instruments) ? json.instruments.map(String).filter(Boolean) : [],
+    prompts,
+  };
+}
+
+/**
+ * Maps an analysis onto generation config. BPM and scale force a context
+ * reset, so a current BPM that still fits the suggested range is kept.
+ */
+export function sceneToGenerationConfig(analysis: SceneAnalysis, currentBpm?: number): Partial<LiveMusicGenerationConfig> {
+  const { min, max } = analysis.bpmRange;
+  const bpm = currentBpm !== undefined && currentBpm >= min && currentBpm <= max ? currentBpm : Math.round((min + max) / 2);
+  return {
+    bpm,
+    density: Number((0.15 + analysis.energy * 0.75).toFixed(2)),
+    brightness: Number((0.3 + analysis.energy * 0.5).toFixed(2)),
+    scale: analysis.scale ?? undefined,
+  };
+}
+
+export function scaleLabel(scale: Scale | null) {
+  return SCALE_OPTIONS.find((o) => o.value === scale)?.label ?? null;
+}
@@ -0,0 +1,104 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** A compact description of a frame: a difference hash plus a coarse color histogram. */
+export interface SceneFingerprint {
+  /** 64 bits of dHash, one per byte; `UNDECIDED_BIT` where the neighbors are too close to call. */
+  hash: Uint8Array;
+  /** Normalized RGB histogram, `HISTOGRAM_LEVELS`³ bins. */
+  histogram: Float32Array;
+}
+
+// dHash compares horizontally adjacent pixels of a 9×8 grayscale thumbnail.
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+// Neighbors closer than this many luma levels count as equal, so sensor noise
+// on flat regions (walls, sky) can't flip their bits from frame to frame.
+const LUMA_DEAD_BAND = 3;
+const UNDECIDED_BIT = 2;
+const HISTOGRAM_WIDTH = 32;
+const HISTOGRAM_HEIGHT = 24;
+const HISTOGRAM_LEVELS = 4;
+// How much of the difference comes from structure (hash) versus color (histogram).
+const HASH_WEIGHT = 0.6;
+
+/**
+ * Fingerprints frames and measures how far they have drifted from a reference,
+ * so analysis can be triggered by what the camera sees rather than a clock.
+ */
+export class SceneChangeDetector {
+  private readonly hashCanvas = document.createElement("canvas");
+  private readonly histogramCanvas = document.createElement("canvas");
+  private reference: SceneFingerprint | null = null;
+
+  constructor() {
+    this.hashCanvas.width = HASH_WIDTH;
+    this.hashCanvas.height = HASH_HEIGHT;
+    this.histogramCanvas.width = HISTOGRAM_WIDTH;
+    this.histogramCanvas.height = HISTOGRAM_HEIGHT;
+  }
+
+  public get hasReference() {
+    return this.reference !== null;
+  }
+
+  public setReference(source: CanvasImageSource) {
+    this.reference = this.fingerprint(source);
+  }
+
+  public clearReference() {
+    this.reference = null;
+  }
+
+  /** 0 (identical) to 1 (nothing in common) against the reference; 0 without one. */
+  public difference(source: CanvasImageSource): number {
+    if (!this.reference) return 0;
+    return compareFingerprints(this.reference, this.fingerprint(source));
+  }
+
+  public fingerprint(source: CanvasImageSource): SceneFingerprint {
+    const hashCtx = this.hashCanvas.getContext("2d", { willReadFrequently: true })!;
+    hashCtx.drawImage(source, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+    const small = hashCtx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT).data;
+    const hash = new Uint8Array((HASH_WIDTH - 1) * HASH_HEIGHT);
+    const luma = (i: number) => 0.299 * small[i * 4] + 0.587 * small[i * 4 + 1] + 0.114 * small[i * 4 + 2];
+    for (let y = 0; y < HASH_HEIGHT; y++) {
+      for (let x = 0; x < HASH_WIDTH - 1; x++) {
+        const i = y * HASH_WIDTH + x;
+        const delta = luma(i + 1) - luma(i);
+        hash[y * (HASH_WIDTH - 1) + x] = Math.abs(delta) < LUMA_DEAD_BAND ? UNDECIDED_BIT : delta > 0 ? 1 : 0;
+      }
+    }
+
+    const histCtx = this.histogramCanvas.getContext("2d", { willReadFrequently: true })!;
+    histCtx.drawImage(source, 0, 0, HISTOGRAM_WIDTH, HISTOGRAM_HEIGHT);
+    const data = histCtx.getImageData(0, 0, HISTOGRAM_WIDTH, HISTOGRAM_HEIGHT).data;
+    const histogram = new Float32Array(HISTOGRAM_LEVELS ** 3);
+    const pixels = HISTOGRAM_WIDTH * HISTOGRAM_HEIGHT;
+    const bin = (v: number) => Math.min(HISTOGRAM_LEVELS - 1, Math.floor((v / 256) * HISTOGRAM_LEVELS));
+    for (let i = 0; i < pixels; i++) {
+      const index = (bin(data[i * 4]) * HISTOGRAM_LEVELS + bin(data[i * 4 + 1])) * HISTOGRAM_LEVELS + bin(data[i * 4 + 2]);
+      histogram[index] += 1 / pixels;
+    }
+    return { hash, histogram };
+  }
+}
+
+/**
+ * Weighted mix of normalized Hamming distance and histogram total variation.
+ * Only bits decided in both hashes are compared.
+ */
+export function compareFingerprints(a: SceneFingerprint, b: SceneFingerprint): number {
+  let hamming = 0;
+  let compared = 0;
+  for (let i = 0; i < a.hash.length; i++) {
+    if (a.hash[i] === UNDECIDED_BIT || b.hash[i] === UNDECIDED_BIT) continue;
+    hamming += a.hash[i] ^ b.hash[i];
+    compared++;
+  }
+  let variation = 0;
+  for (let i = 0; i < a.histogram.length; i++) variation += Math.abs(a.histogram[i] - b.histogram[i]);
+  return HASH_WEIGHT * (compared === 0 ? 0 : hamming / compared) + (1 - HASH_WEIGHT) * (variation / 2);
+}
@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { SceneAnalysis } from "./scene_analysis";
+import type { AnalyzerKind } from "./types";
+
+export type SlideTransition = "cut" | "fade";
+
+export interface Slide {
+  id: string;
+  name: string;
+  /** JPEG data URL, downscaled to at most `SLIDE_MAX_DIM`. */
+  src: string;
+  durationSeconds: number;
+  /** How this slide replaces the one before it. */
+  transition: SlideTransition;
+  /** The slide's analysis, cached so replays don't ask for it again. */
+  analysis?: SceneAnalysis;
+  analyzer?: AnalyzerKind;
+}
+
+/** A saved arrangement of slides. Stored in IndexedDB. */
+export interface Slideshow {
+  id: string;
+  name: string;
+  slides: Slide[];
+  updatedAt: number;
+}
+
+export const SLIDE_TRANSITIONS: SlideTransition[] = ["cut", "fade"];
+export const DEFAULT_SLIDE_SECONDS = 20;
+export const MIN_SLIDE_SECONDS = 3;
+export const MAX_SLIDE_SECONDS = 600;
+export const SLIDE_FADE_SECONDS = 1.2;
+// Large enough to fill a screen; small enough that a saved slideshow stays a few MB.
+const SLIDE_MAX_DIM = 1920;
+const SLIDE_QUALITY = 0.88;
+
+/** Decodes an image file and re-encodes it as a slide. */
+export async function createSlide(file: File): Promise<Slide> {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, SLIDE_MAX_DIM / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext("2d")?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return {
+    id: crypto.randomUUID(),
+    name: file.name.replace(/\.[^.]+$/, ""),
+    src: canvas.toDataURL("image/jpeg", SLIDE_QUALITY),
+    durationSeconds: DEFAULT_SLIDE_SECONDS,
+    transition: "fade",
+  };
+}
+
+export function clampSlideSeconds(seconds: number) {
+  return Number.isFinite(seconds) ? Math.min(MAX_SLIDE_SECONDS, Math.max(MIN_SLIDE_SECONDS, Math.round(seconds))) : DEFAULT_SLIDE_SECONDS;
+}
+
+/** Returns the slides with the one at `from` moved to `to`. */
+export function moveSlide(slides: Slide[], from: number, to: number) {
+  if (to < 0 || to >= slides.length || from === to) return slides;
+  const next = [...slides];
+  const [slide] = next.splice(from, 1);
+  next.splice(to, 0, slide);
+  return next;
+}
+
+export function totalSlideSeconds(slides: Slide[]) {
+  return slides.reduce((sum, s) => sum + s.durationSeconds, 0);
+}
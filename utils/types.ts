@@ -17,17 +17,30 @@ export type FacingMode = "user" | "environment";
 export type AppState =
   | "idle" // not generating or playing
   | "pendingStart" // first capture requested, waiting on prompt generation
-  | "playing"; // capture loop active and music playing
+  | "playing" // capture loop active and music playing
+  | "paused"; // session kept open but silent, capture loop halted
 
 export type IntervalPreset = {
-  captureSeconds: number;
+  captureSeconds: number; // with sceneChange, the longest wait between analyses
   crossfadeSeconds: number;
   labelValue: string;
   labelSub: string;
+  sceneChange?: SceneChangeTrigger;
 };
 
-export type StreamSource = "camera" | "screen" | "image" | "none";
+/** Analyze when the view drifts from the last analyzed frame, not on a fixed clock. */
+export type SceneChangeTrigger = {
+  threshold: number; // 0–1 fingerprint difference that counts as a new scene
+  minSeconds: number; // shortest wait between analyses, however much the scene changes
+};
+
+export type VisionProviderKind = "gemini" | "openai" | "mock";
+
+/** Which analyzer produced the current vibe: a vision provider or the local heuristics. */
+export type AnalyzerKind = VisionProviderKind | "heuristic";
+
+export type StreamSource = "camera" | "screen" | "image" | "video" | "slideshow" | "none";
 
-export type Page = "splash" | "main" | "interval" | "download" | "processing" | "preview";
+export type Page = "splash" | "main" | "interval" | "download" | "processing" | "preview" | "slideshow";
 
 export type Language = "en" | "pt";
\ No newline at end of file
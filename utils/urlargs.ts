@@ -3,13 +3,21 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { $undefined, UrlArgs } from "urlargs";
+import { $allowed, $undefined, UrlArgs } from "urlargs";
 import { isLocal } from "./is_local";
 
 const args = new UrlArgs({
   debugPrompts: false,
   streamWidth: $undefined.number(1280),
   streamHeight: $undefined.number(720),
+  musicBackend: $allowed.string("gemini", "local"),
+  musicStandInUrl: `${location.protocol === "https:" ? "wss" : "ws"}://${location.host}/music-stand-in`,
+  targetLatency: 1,
+  maxRetries: 5,
+  // The first value, the default, leaves the provider chosen in settings alone.
+  visionProvider: $allowed.string("settings", "gemini", "openai", "mock"),
+  visionBaseUrl: $undefined.string,
+  visionModel: $undefined.string,
 });
 
 if (isLocal) {
@@ -17,6 +25,13 @@ if (isLocal) {
     debugPrompts: "Start with dummy prompts",
     streamHeight: "Desired height for video stream",
     streamWidth: "Desired width for video stream",
+    musicBackend: "Music generation backend (local uses the dev server stand-in)",
+    musicStandInUrl: "WebSocket URL of the local music stand-in",
+    targetLatency: "Seconds of audio buffered ahead of playback",
+    maxRetries: "Music reconnect attempts before giving up",
+    visionProvider: "Scene analysis provider: gemini, openai (compatible endpoint) or mock; overrides settings unless left at settings",
+    visionBaseUrl: "Base URL of the OpenAI-compatible endpoint, e.g. http://localhost:11434/v1",
+    visionModel: "Model name to request from the OpenAI-compatible endpoint",
   });
 }
 
@@ -0,0 +1,288 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ApiError, GoogleGenAI, type Content, type GenerateContentParameters } from "@google/genai";
+import { AnalysisValidationError, MAX_ANALYSIS_PROMPTS, MAX_PROMPT_KEYWORDS, validateSceneAnalysis, type ValidatedAnalysis } from "./analysis_validation";
+import { parseRetryAfter, RateLimitError, RequestCancelledError } from "./request_scheduler";
+import { SCENE_ANALYSIS_SCHEMA, type SceneAnalysis } from "./scene_analysis";
+import type { VisionProviderKind } from "./types";
+
+/** A captured frame, base64-encoded without the data-URL prefix. */
+export interface VisionSnapshot {
+  data: string;
+  mimeType: string;
+}
+
+/**
+ * Turns snapshots and a rendered prompt template into a validated scene
+ * analysis. Snapshots are ordered oldest first; the last is the current view.
+ * A response that fails validation is retried once with a repair instruction,
+ * after awaiting `beforeRepair` so callers can count the extra request
+ * against their quota. If `beforeRepair` throws, the repair is skipped and
+ * the first reply's `AnalysisValidationError` is thrown instead.
+ */
+export interface VisionProvider {
+  readonly kind: VisionProviderKind;
+  /** Human-readable model or endpoint name, for logs. */
+  readonly label: string;
+  analyze(snapshots: VisionSnapshot[], promptTemplate: string, beforeRepair?: () => Promise<void>): Promise<ValidatedAnalysis>;
+  /** Suggests a replacement for a prompt the music service filtered. */
+  rephrase(prompt: string, reason: string): Promise<string>;
+}
+
+export interface VisionProviderSettings {
+  kind: VisionProviderKind;
+  /** Base URL of an OpenAI-compatible API, up to and including `/v1`. */
+  baseUrl: string;
+  model: string;
+  /** Optional bearer token; most local servers ignore it. */
+  apiKey: string;
+}
+
+export const VISION_PROVIDER_KINDS: VisionProviderKind[] = ["gemini", "openai", "mock"];
+
+export const DEFAULT_VISION_PROVIDER_SETTINGS: VisionProviderSettings = {
+  kind: "gemini",
+  baseUrl: "http://localhost:11434/v1",
+  model: "llava",
+  apiKey: "",
+};
+
+// Chat-completions endpoints have no response schema, so the shape is spelled out in the prompt.
+const JSON_SHAPE_INSTRUCTION =
+  'Respond with a single JSON object and nothing else, shaped like {"description": string, "mood": string, "energy": number, "bpmMin": integer, "bpmMax": integer, "scale": string, "instruments": string[], "prompts": [{"text": string, "weight": number}]}.';
+
+function rephraseInstruction(prompt: string, reason: string) {
+  return `A music generation service rejected the prompt "${prompt}"${reason ? ` (reason: ${reason})` : ""}. Reply with only a replacement prompt of 3-5 keywords that keeps its style, instruments and tempo but avoids the problem, for example by dropping artist names, lyrics or sensitive words.`;
+}
+
+function toRephrasedPrompt(text: string) {
+  const line = text.trim().split("\n")[0].trim().replace(/^["'`]+|["'`.]+$/g, "");
+  if (!line) throw new Error("Rephrase returned no prompt");
+  return line;
+}
+
+/** A rejected response and what to tell the model about it. */
+interface Repair {
+  previous: string;
+  instruction: string;
+}
+
+function repairInstruction(problems: string[]) {
+  return `Your previous reply could not be used: ${problems.join("; ")}. Reply again with only the corrected JSON object. Give at most ${MAX_ANALYSIS_PROMPTS} distinct prompts, each a single string of 3-${MAX_PROMPT_KEYWORDS} comma-separated English keywords.`;
+}
+
+/**
+ * Validates a response, asking once for a repaired one when it is unusable.
+ * Errors from the repair request, rate limits included, propagate like the first one's.
+ */
+async function analyzeWithRepair(
+  request: (repair: Repair | null) => Promise<string>,
+  beforeRepair?: () => Promise<void>,
+): Promise<ValidatedAnalysis> {
+  const previous = await request(null);
+  let first: AnalysisValidationError;
+  try {
+    return validateSceneAnalysis(previous);
+  } catch (e) {
+    if (!(e instanceof AnalysisValidationError)) throw e;
+    first = e;
+  }
+  const problems = first.problems.map((p) => `first reply: ${p}`);
+  try {
+    await beforeRepair?.();
+  } catch (e) {
+    if (e instanceof RequestCancelledError) throw e;
+    throw new AnalysisValidationError([...problems, `no repair requested: ${(e as Error).message}`]);
+  }
+  try {
+    const repaired = validateSceneAnalysis(await request({ previous, instruction: repairInstruction(first.problems) }));
+    return { analysis: repaired.analysis, rejections: [...problems, ...repaired.rejections.map((p) => `repaired reply: ${p}`)] };
+  } catch (e) {
+    if (!(e instanceof AnalysisValidationError)) throw e;
+    throw new AnalysisValidationError([...problems, ...e.problems.map((p) => `repaired reply: ${p}`)]);
+  }
+}
+
+/** Structured output from Gemini, constrained by `SCENE_ANALYSIS_SCHEMA`. */
+export class GeminiVisionProvider implements VisionProvider {
+  readonly kind = "gemini";
+  private readonly ai: GoogleGenAI;
+
+  constructor(
+    apiKey: string,
+    private readonly model: string,
+  ) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  get label() {
+    return this.model;
+  }
+
+  async analyze(snapshots: VisionSnapshot[], promptTemplate: string, beforeRepair?: () => Promise<void>): Promise<ValidatedAnalysis> {
+    const images = snapshots.map(({ mimeType, data }) => ({ inlineData: { mimeType, data } }));
+    return analyzeWithRepair(async (repair) => {
+      const contents: Content[] = [{ role: "user", parts: [...images, { text: promptTemplate }] }];
+      if (repair) contents.push({ role: "model", parts: [{ text: repair.previous }] }, { role: "user", parts: [{ text: repair.instruction }] });
+      const response = await this.generate({
+        model: this.model,
+        contents,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: SCENE_ANALYSIS_SCHEMA,
+        },
+      });
+      return response.text ?? "";
+    }, beforeRepair);
+  }
+
+  async rephrase(prompt: string, reason: string): Promise<string> {
+    const response = await this.generate({ model: this.model, contents: rephraseInstruction(prompt, reason) });
+    return toRephrasedPrompt(response.text ?? "");
+  }
+
+  private async generate(params: GenerateContentParameters) {
+    try {
+      return await this.ai.models.generateContent(params);
+    } catch (e) {
+      if (!(e instanceof ApiError) || e.status !== 429) throw e;
+      // The delay only arrives inside the error body, as a RetryInfo detail like "retryDelay": "17s".
+      const delay = e.message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+      throw new RateLimitError(e.message, delay ? Number(delay[1]) * 1000 : null);
+    }
+  }
+}
+
+/**
+ * Any server speaking the OpenAI chat-completions API with image input, such
+ * as Ollama, LM Studio, llama.cpp or vLLM running locally.
+ */
+export class OpenAICompatibleVisionProvider implements VisionProvider {
+  readonly kind = "openai";
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly model: string,
+    private readonly apiKey = "",
+  ) {}
+
+  get label() {
+    return `${this.model} @ ${this.baseUrl}`;
+  }
+
+  async analyze(snapshots: VisionSnapshot[], promptTemplate: string, beforeRepair?: () => Promise<void>): Promise<ValidatedAnalysis> {
+    const messages: object[] = [
+      {
+        role: "user",
+        content: [
+          { type: "text", text: `${promptTemplate}\n\n${JSON_SHAPE_INSTRUCTION}` },
+          ...snapshots.map(({ mimeType, data }) => ({ type: "image_url", image_url: { url: `data:${mimeType};base64,${data}` } })),
+        ],
+      },
+    ];
+    return analyzeWithRepair((repair) =>
+      this.complete({
+        response_format: { type: "json_object" },
+        messages: repair ? [...messages, { role: "assistant", content: repair.previous }, { role: "user", content: repair.instruction }] : messages,
+      }),
+      beforeRepair,
+    );
+  }
+
+  async rephrase(prompt: string, reason: string): Promise<string> {
+    const content = await this.complete({ messages: [{ role: "user", content: rephraseInstruction(prompt, reason) }] });
+    return toRephrasedPrompt(content);
+  }
+
+  private async complete(request: object): Promise<string> {
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({ model: this.model, ...request }),
+    });
+    if (response.status === 429) {
+      throw new RateLimitError(`429 ${response.statusText} from ${this.label}`, parseRetryAfter(response.headers.get("Retry-After")));
+    }
+    if (!response.ok) throw new Error(`${response.status} ${response.statusText} from ${this.label}`);
+    const body = await response.json();
+    const content = body?.choices?.[0]?.message?.content;
+    if (typeof content !== "string") throw new Error(`No message content from ${this.label}`);
+    return content;
+  }
+}
+
+const CANNED_ANALYSES: SceneAnalysis[] = [
+  {
+    description: "A quiet room in soft afternoon light.",
+    mood: "Calm",
+    energy: 0.2,
+    bpmRange: { min: 72, max: 84 },
+    scale: null,
+    instruments: ["Felt Piano", "Tape Hiss", "Upright Bass"],
+    prompts: [
+      { text: "Lo-fi, Felt Piano, Dusty, 78bpm", weight: 1 },
+      { text: "Ambient, Synth Pads, 76bpm", weight: 0.6 },
+      { text: "Jazz, Upright Bass, Brushes", weight: 0.4 },
+    ],
+  },
+  {
+    description: "A busy street with people and traffic moving through.",
+    mood: "Restless",
+    energy: 0.75,
+    bpmRange: { min: 120, max: 132 },
+    scale: null,
+    instruments: ["Drum Machine", "Analog Synth", "Slap Bass"],
+    prompts: [
+      { text: "Deep House, Drum Machine, 124bpm", weight: 1 },
+      { text: "Funk, Slap Bass, Groovy", weight: 0.7 },
+      { text: "Synthwave, Analog Synth, 126bpm", weight: 0.5 },
+    ],
+  },
+  {
+    description: "An open landscape under a wide sky.",
+    mood: "Expansive",
+    energy: 0.45,
+    bpmRange: { min: 90, max: 104 },
+    scale: null,
+    instruments: ["Strings", "Acoustic Guitar", "Glass Bells"],
+    prompts: [
+      { text: "Cinematic, Strings, Swelling, 96bpm", weight: 1 },
+      { text: "Folk, Acoustic Guitar, Warm", weight: 0.6 },
+      { text: "Post-rock, Glass Bells, Shimmering", weight: 0.5 },
+    ],
+  },
+];
+
+/** Cycles through canned analyses after a short delay, ignoring the image. */
+export class MockVisionProvider implements VisionProvider {
+  readonly kind = "mock";
+  readonly label = "mock";
+  private next = 0;
+
+  constructor(private readonly delayMs = 600) {}
+
+  async analyze(): Promise<ValidatedAnalysis> {
+    await new Promise((resolve) => setTimeout(resolve, this.delayMs));
+    const analysis = CANNED_ANALYSES[this.next++ % CANNED_ANALYSES.length];
+    return { analysis: structuredClone(analysis), rejections: [] };
+  }
+
+  /** Keeps everything after the first keyword, which stands in for the offending term. */
+  async rephrase(prompt: string): Promise<string> {
+    await new Promise((resolve) => setTimeout(resolve, this.delayMs));
+    const rest = prompt.split(",").slice(1).map((k) => k.trim()).filter(Boolean);
+    return ["Instrumental", ...rest].join(", ");
+  }
+}
+
+export function createVisionProvider(settings: VisionProviderSettings, options: { geminiApiKey: string; geminiModel: string }): VisionProvider {
+  if (settings.kind === "openai") return new OpenAICompatibleVisionProvider(settings.baseUrl, settings.model, settings.apiKey);
+  if (settings.kind === "mock") return new MockVisionProvider();
+  return new GeminiVisionProvider(options.geminiApiKey, options.geminiModel);
+}
@@ -1,6 +1,20 @@
+import type { Server } from 'http';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, type Plugin } from 'vite';
+import { attachMusicStandIn } from './server/music_stand_in';
 
+// Serves the local music stand-in alongside the dev server (`?musicBackend=local`).
+function musicStandIn(): Plugin {
+    return {
+      name: 'music-stand-in',
+      configureServer(server) {
+        if (server.httpServer) attachMusicStandIn(server.httpServer as Server);
+      },
+      configurePreviewServer(server) {
+        attachMusicStandIn(server.httpServer as Server);
+      },
+    };
+}
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,7 +23,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [],
+      plugins: [musicStandIn()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)